@@ -2,22 +2,36 @@
  * ZenStack v3 Runtime Plugin: Next.js Cache Integration
  *
  * このプラグインは、ZenStack ORMのクエリ操作に対して
- * Next.jsのキャッシュシステム（unstable_cache）を透過的に適用します。
+ * Next.jsのキャッシュシステム（unstable_cache または 'use cache'）を透過的に適用します。
  *
  * 機能:
- * - 読み取り操作（findMany, findUnique等）をunstable_cacheでラップしてキャッシュ
+ * - 読み取り操作（findMany, findUnique等）をunstable_cacheまたはCache Componentsでキャッシュ
  * - 書き込み操作（create, update, delete）後にrevalidateTagで自動でキャッシュを無効化
  * - Date型を自動的にISO文字列に変換（キャッシュシリアライズ対策）
  * - スキーマ属性（@@cache.exclude, @@cache.tags, @@cache.life）によるモデルごとの設定
  */
 
-import { definePlugin } from '@zenstackhq/orm'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { createHash } from 'node:crypto'
+import {
+  definePlugin,
+  type OnKyselyQueryArgs,
+  ORMError,
+  ORMErrorReason,
+} from '@zenstackhq/orm'
+import Decimal from 'decimal.js'
 import { type SchemaType, schema } from 'zenstack/schema'
+import { z } from 'zod'
 
 // ============================================================================
 // 型定義
 // ============================================================================
 
+/**
+ * Next.js 組み込みの cacheLife プロファイル
+ * Cache Components バックエンドではそのまま cacheLife() に渡し、
+ * unstable_cache バックエンドでは getCacheRevalidateSeconds() で秒数に変換する
+ */
 export type CacheLifeProfile =
   | 'seconds'
   | 'minutes'
@@ -49,6 +63,205 @@ export function getCacheRevalidateSeconds(profile: CacheLifeProfile): number {
   }
 }
 
+/**
+ * キャッシュ無効化のタイミング
+ * - 'before': ミューテーション実行前に無効化
+ * - 'after': ミューテーションのコミット後に無効化
+ * - 'both': 実行前とコミット後の両方で無効化
+ */
+export type InvalidationTiming = 'before' | 'after' | 'both'
+
+/**
+ * キャッシュキーの生成方式
+ * - 'canonical': 正規化したクエリ引数の文字列をそのままキーに使用
+ * - 'hash': 正規化したクエリ引数のSHA-256ハッシュをキーに使用（キー長が固定）
+ */
+export type CacheKeyMode = 'canonical' | 'hash'
+
+/**
+ * raw SQL の書き込み先のモデルを特定できない場合の動作
+ * - 'all': キャッシュ対象のすべてのモデルのタグを無効化
+ * - 'none': 何も無効化しない
+ */
+export type RawWriteFallback = 'all' | 'none'
+
+/**
+ * アクセスポリシーで保護されたモデルをスコープなしで読み取る場合の動作
+ * - 'off': チェックしない
+ * - 'skip': キャッシュせずにデータベースから読み取る
+ * - 'throw': エラーを投げる（開発環境向け）
+ */
+export type PolicySafetyMode = 'off' | 'skip' | 'throw'
+
+/**
+ * 読み取り結果をキャッシュするバックエンド
+ * - 'unstable-cache': unstable_cache でラップ（revalidate は秒数に変換）
+ * - 'cache-components': 'use cache' 関数内で cacheTag / cacheLife を設定
+ *   （next.config の cacheComponents を有効にする必要がある）
+ */
+export type CacheBackend = 'unstable-cache' | 'cache-components'
+
+/**
+ * キャッシュエントリの保存オプション
+ */
+export interface CacheStoreSetOptions {
+  /** エントリに紐づけるキャッシュタグ */
+  readonly tags: string[]
+  /** 有効期間（秒） */
+  readonly ttl: number
+  /** 有効期間のプロファイル（ttl の変換元） */
+  readonly life: CacheLifeProfile
+}
+
+/**
+ * キャッシュストアから取得した値
+ */
+export interface CacheStoreHit {
+  readonly value: unknown
+}
+
+/**
+ * キャッシュストアのアダプタ
+ * 読み取り結果の保存・取得と、タグによる無効化を担当する
+ */
+export interface CacheStore {
+  /**
+   * キャッシュから値を取得
+   * @returns ヒットしない（または期限切れの）場合は undefined
+   */
+  get(key: string): Promise<CacheStoreHit | undefined>
+
+  /**
+   * タグ・TTL付きで値を保存
+   */
+  set(key: string, value: unknown, options: CacheStoreSetOptions): Promise<void>
+
+  /**
+   * タグに紐づくキャッシュを無効化
+   */
+  invalidateTags(tags: readonly string[]): Promise<void>
+
+  /**
+   * クエリの実行ごとキャッシュする（任意）
+   * 実装されている場合は get / set の代わりに使用される
+   * unstable_cache のように関数単位でキャッシュするバックエンド向け
+   */
+  wrap?(
+    keyParts: readonly string[],
+    execute: () => Promise<unknown>,
+    options: CacheStoreSetOptions,
+  ): Promise<unknown>
+}
+
+/**
+ * クエリ単位のキャッシュ設定（`$cache` クエリ引数）
+ *
+ * @example
+ * ```typescript
+ * db.post.findMany({ where, $cache: { life: 'minutes', tags: ['home'] } })
+ * db.post.findMany({ where, $cache: { skip: true } })
+ * ```
+ */
+export interface CacheQueryOptions {
+  /** このクエリのキャッシュ有効期間（@@cache.life やデフォルト値より優先） */
+  life?: CacheLifeProfile
+  /** モデルのタグに加えて付与するキャッシュタグ */
+  tags?: string[]
+  /** true の場合はキャッシュせずに直接クエリを実行 */
+  skip?: boolean
+}
+
+/**
+ * キャッシュの共有範囲
+ * - 'user': cacheScope が返すスコープ（デフォルトは $auth.id）ごとにキャッシュを分ける
+ * - 'public': 全ユーザーで共有する
+ */
+export type CacheScopeMode = 'user' | 'public'
+
+/**
+ * キャッシュキーを分けるスコープを解決する関数
+ * @param auth `$auth` に設定された値（未設定の場合は undefined）
+ * @param model 読み取るモデル名（$qb の場合は参照しているモデル名をカンマで連結したもの）
+ * @param operation 操作名（$qb の場合は '$qb'）
+ * @returns スコープのキー、全ユーザーで共有する場合は 'public'
+ */
+export type CacheScopeResolver = (
+  auth: Record<string, unknown> | undefined,
+  model: string,
+  operation: string,
+) => string
+
+/**
+ * クライアント単位のキャッシュ設定（`$withCache()` の引数）
+ * クエリ単位の `$cache` が指定された場合はそちらが優先される
+ */
+export interface CacheClientOptions extends CacheQueryOptions {
+  /**
+   * キャッシュの共有範囲
+   * @default 'user'
+   */
+  scope?: CacheScopeMode
+}
+
+/**
+ * プラグインが拡張するクライアントメンバー
+ */
+export type NextjsCacheClientMembers = {
+  /**
+   * キャッシュ設定を上書きしたクライアントを返す
+   * ミューテーション時のキャッシュ無効化はそのまま動作する
+   */
+  $withCache: <Client>(this: Client, options: CacheClientOptions) => Client
+  /**
+   * 読み取りをキャッシュしないクライアントを返す
+   * ミューテーション時のキャッシュ無効化はそのまま動作する
+   */
+  $noCache: <Client>(this: Client) => Client
+  /**
+   * raw SQL の書き込みで無効化するモデルを指定したクライアントを返す
+   * このクライアントで実行した raw SQL は、SQL を解析せずに指定したモデルのキャッシュを無効化する
+   */
+  $withRawWriteModels: <Client>(this: Client, models: string[]) => Client
+  /**
+   * スコープ（デフォルトはユーザーID）でキャッシュしたすべての読み取りを無効化する
+   * ロール変更やログアウトの後に、他のユーザーのキャッシュを残したまま無効化できる
+   */
+  $revalidateCacheScope: (scope: string) => Promise<void>
+}
+
+/**
+ * null / not-found 結果のキャッシュ（ネガティブキャッシュ）の設定
+ */
+export interface NegativeCacheOptions {
+  /**
+   * null の結果と `*OrThrow` の not-found エラーをキャッシュするかどうか
+   * @default true
+   */
+  enabled?: boolean
+
+  /**
+   * null / not-found の結果の有効期間
+   * 指定した場合、否定結果は通常の結果とは別のエントリに保存される
+   * @default モデルの有効期間
+   */
+  life?: CacheLifeProfile
+}
+
+/**
+ * リクエスト単位のミューテーション記録
+ * 同一リクエスト内で無効化したタグを保持し、以降の読み取りではキャッシュを迂回する
+ */
+export interface CacheRequestScope {
+  readonly mutatedTags: Set<string>
+}
+
+/**
+ * プラグインが拡張するクエリ引数
+ */
+export type NextjsCacheQueryArgs = {
+  $read: { $cache?: CacheQueryOptions }
+}
+
 export interface NextjsCachePluginOptions {
   /**
    * デフォルトのキャッシュ有効期間
@@ -56,12 +269,114 @@ export interface NextjsCachePluginOptions {
    */
   defaultCacheLife?: CacheLifeProfile
 
+  /**
+   * 読み取り結果をキャッシュするバックエンド
+   * cacheStore を指定した場合は無視される
+   * @default 'unstable-cache'
+   */
+  cacheBackend?: CacheBackend
+
+  /**
+   * キャッシュストア
+   * Next.js ランタイムのない環境では createMemoryCacheStore() 等を指定する
+   * @default createNextjsCacheStore({ backend: cacheBackend })
+   */
+  cacheStore?: CacheStore
+
   /**
    * キャッシュから除外するモデル名（追加分）
    * スキーマの @@cache.exclude と合わせて使用される
    */
   excludeModels?: string[]
 
+  /**
+   * キャッシュ無効化のタイミング
+   * トランザクション内のミューテーションと raw SQL の書き込みは、タイミングに関わらず
+   * 最も外側のトランザクションのコミット後にまとめて無効化される
+   * @default 'both'
+   */
+  invalidationTiming?: InvalidationTiming
+
+  /**
+   * キャッシュキーの生成方式
+   * 大きな where 句を含むクエリでキー長を抑えたい場合は 'hash' を指定する
+   * @default 'canonical'
+   */
+  cacheKeyMode?: CacheKeyMode
+
+  /**
+   * インタラクティブトランザクション内の読み取りもキャッシュするかどうか
+   * 無効にすると、トランザクション自身の書き込みと矛盾するキャッシュを返したり、
+   * ロールバックされるデータをキャッシュしたりするのを防げる
+   * @default false
+   */
+  cacheInTransaction?: boolean
+
+  /**
+   * null / not-found の結果のキャッシュ設定
+   * @default { enabled: true }
+   */
+  negativeCache?: NegativeCacheOptions
+
+  /**
+   * キャッシュタグを付与するためにたどる include / select の深さの上限
+   * 上限より深いリレーションのタグは付与されない
+   * @default 10
+   */
+  maxRelationDepth?: number
+
+  /**
+   * クライアント全体に適用するキャッシュ設定
+   * `$withCache()` / `$noCache()` で派生したクライアントではこの設定が上書きされる
+   */
+  clientCacheOptions?: CacheClientOptions
+
+  /**
+   * 現在のリクエストのスコープを返す関数
+   * 同一リクエスト内で変更したモデル・エンティティの読み取りはキャッシュを迂回する（read-your-own-writes）
+   * React の cache() で生成したスコープを返すと、リクエストごとに自動で切り替わる
+   * @default runWithCacheRequestScope() で開始したスコープ
+   */
+  getRequestScope?: () => CacheRequestScope | undefined
+
+  /**
+   * raw SQL（$executeRaw / $queryRaw 等）の書き込みで無効化するモデル
+   * 指定した場合は書き込みを含む SQL で、書き込み先の代わりにこのモデルのキャッシュを無効化する
+   * 通常は `$withRawWriteModels()` で派生したクライアントで指定する
+   */
+  rawWriteModels?: string[]
+
+  /**
+   * raw SQL の書き込み先のモデルを特定できない場合の動作
+   * @default 'all'
+   */
+  rawWriteFallback?: RawWriteFallback
+
+  /**
+   * クエリビルダー（$qb）の SELECT の結果もキャッシュするかどうか
+   * 参照しているテーブルのモデルのタグが付与され、モデルの変更時に無効化される
+   * $transaction() 内の読み取りは cacheInTransaction に従う
+   * @default false
+   */
+  cacheQueryBuilder?: boolean
+
+  /**
+   * キャッシュキーを分けるスコープを返す関数
+   * アクセスポリシーが参照する auth の値（role・orgId 等）でスコープを決めると、
+   * 同じ結果になるユーザー同士でキャッシュを共有できる
+   * @default $auth.id（未設定の場合は 'public'）
+   */
+  cacheScope?: CacheScopeResolver
+
+  /**
+   * アクセスポリシー（@@allow / @@deny）で保護されたモデルの読み取りの安全性チェック
+   * $auth が設定されているのに cacheScope が 'public' を返した読み取りは、ポリシーで絞り込まれた結果を
+   * 他のユーザーと共有してしまうため、キャッシュしないかエラーを投げる
+   * 'off' 以外では、ポリシープラグインより後に $use した場合に警告する
+   * @default 'off'
+   */
+  policySafety?: PolicySafetyMode
+
   /**
    * デバッグログを出力するかどうか
    * @default false
@@ -89,10 +404,20 @@ interface ModelAttribute {
 interface FieldDefinition {
   readonly name: string
   readonly type: string
+  readonly attributes?: readonly ModelAttribute[]
+  readonly id?: boolean
+  readonly unique?: boolean
+  readonly array?: boolean
+  readonly optional?: boolean
+  /** 委譲モデルから継承したフィールドの場合、定義元のモデル名 */
+  readonly originModel?: string
   readonly relation?: {
+    readonly name?: string
     readonly opposite?: string
     readonly fields?: readonly string[]
     readonly references?: readonly string[]
+    readonly onDelete?: ReferentialAction
+    readonly onUpdate?: ReferentialAction
   }
 }
 
@@ -100,6 +425,48 @@ interface ModelDefinition {
   readonly name: string
   readonly fields?: Record<string, FieldDefinition>
   readonly attributes?: readonly ModelAttribute[]
+  readonly idFields?: readonly string[]
+  /**
+   * ユニーク制約
+   * 単一フィールドは `{ email: { type } }`、複合キーは `{ userId_orgId: { userId: { type }, orgId: { type } } }`
+   */
+  readonly uniqueFields?: Record<string, Record<string, unknown>>
+  /** 委譲（@@delegate）の基底モデル名 */
+  readonly baseModel?: string
+  /** 委譲モデルの直接の派生モデル名 */
+  readonly subModels?: readonly string[]
+}
+
+/**
+ * ユニーク制約（@id / @@id / @unique / @@unique）
+ */
+export interface UniqueConstraint {
+  /** 制約名（単一フィールドはフィールド名、複合キーは `userId_orgId` 形式） */
+  readonly name: string
+  /** 制約を構成するフィールド名 */
+  readonly fields: readonly string[]
+  /** 主キーかどうか */
+  readonly primary: boolean
+}
+
+/**
+ * リレーションの参照アクション（onDelete / onUpdate）
+ */
+export type ReferentialAction =
+  | 'Cascade'
+  | 'Restrict'
+  | 'NoAction'
+  | 'SetNull'
+  | 'SetDefault'
+
+/**
+ * 暗黙的な多対多リレーションの中間テーブル
+ */
+export interface ManyToManyJoinTable {
+  /** テーブル名（`_CategoryToTag` または `_${relation.name}`） */
+  readonly name: string
+  /** A 列・B 列がそれぞれ主キーを参照するモデル名 */
+  readonly models: readonly [string, string]
 }
 
 /**
@@ -170,164 +537,1008 @@ export function getRelatedModels(modelName: string): string[] {
 }
 
 /**
- * モデルが @@cache.exclude() 属性を持っているかチェック
+ * 委譲（@@delegate）の継承階層に含まれるモデル名を取得
+ * 基底モデルをたどった祖先と、派生モデルをたどった子孫を返す
+ * 派生モデルの行は基底モデルの行と主キーを共有し、基底モデルの読み取りは派生モデルのフィールドも返すため、
+ * 階層内のどのモデルの変更も互いのキャッシュに影響する
+ * @returns 継承階層のモデル名の配列（自身は含まない）
  */
-export function hasExcludeAttribute(modelName: string): boolean {
-  const attributes = getModelAttributes(modelName)
-  return attributes.some((attr) => attr.name === '@@cache.exclude')
+export function getDelegateHierarchy(modelName: string): string[] {
+  return [...(getSchemaIndex().delegateHierarchies.get(modelName) ?? [])]
 }
 
 /**
- * モデルの @@cache.tags() 属性からタグを取得
+ * 委譲の継承階層をスキーマから求める（getSchemaIndex() で一度だけ呼び出す）
  */
-export function getCustomTags(modelName: string): string[] | undefined {
-  const attributes = getModelAttributes(modelName)
-  const tagsAttr = attributes.find((attr) => attr.name === '@@cache.tags')
-  if (!tagsAttr?.args?.[0]?.value) return
+function collectDelegateHierarchy(modelName: string): string[] {
+  const models = schema.models as unknown as Record<string, ModelDefinition>
+  const hierarchy = new Set<string>()
 
-  const value = tagsAttr.args[0].value
-  if (Array.isArray(value)) {
-    return value.filter((v): v is string => typeof v === 'string')
+  // 祖先（基底モデル）
+  for (
+    let base = models[modelName]?.baseModel;
+    base && !hierarchy.has(base);
+    base = models[base]?.baseModel
+  ) {
+    hierarchy.add(base)
   }
-  return
+
+  // 子孫（派生モデル）
+  const queue = [modelName]
+  for (let current = queue.shift(); current; current = queue.shift()) {
+    const subModels = new Set(models[current]?.subModels ?? [])
+    for (const [name, model] of Object.entries(models)) {
+      if (model.baseModel === current) subModels.add(name)
+    }
+    for (const subModel of subModels) {
+      if (subModel === modelName || hierarchy.has(subModel)) continue
+      hierarchy.add(subModel)
+      queue.push(subModel)
+    }
+  }
+
+  return [...hierarchy]
 }
 
 /**
- * モデルの @@cache.life() 属性からライフタイムを取得
+ * モデルの主キーフィールド名を取得
+ * スキーマの idFields（@id / @@id）を優先し、なければ id フィールドを主キーとみなす
  */
-export function getCustomLife(modelName: string): CacheLifeProfile | undefined {
-  const attributes = getModelAttributes(modelName)
-  const lifeAttr = attributes.find((attr) => attr.name === '@@cache.life')
-  if (!lifeAttr?.args?.[0]?.value) return
-
-  const value = lifeAttr.args[0].value
-  if (
-    typeof value === 'string' &&
-    ['seconds', 'minutes', 'hours', 'days', 'weeks', 'max'].includes(value)
-  ) {
-    return value as CacheLifeProfile
+export function getIdFields(modelName: string): string[] {
+  const models = schema.models as unknown as Record<string, ModelDefinition>
+  const idFields = models[modelName]?.idFields
+  if (idFields && idFields.length > 0) {
+    return [...idFields]
   }
-  return
-}
 
-// ============================================================================
-// 定数
-// ============================================================================
+  const fields = getModelFields(modelName)
+  const markedFields = Object.values(fields)
+    .filter((field) => field.id)
+    .map((field) => field.name)
+  if (markedFields.length > 0) {
+    return markedFields
+  }
 
-/** 読み取り操作 */
-const READ_OPERATIONS = [
-  'findMany',
-  'findUnique',
-  'findFirst',
-  'findUniqueOrThrow',
-  'findFirstOrThrow',
-  'count',
-  'aggregate',
-  'groupBy',
-] as const
+  return ['id']
+}
 
-// ============================================================================
-// ユーティリティ関数
-// ============================================================================
+/**
+ * テーブル名から暗黙的な多対多リレーションの中間テーブルを取得
+ * ZenStack の命名規則（モデル名をソートして `_AToB`、リレーション名があれば `_${name}`）に従う
+ * @returns 中間テーブルでなければ undefined
+ */
+export function getManyToManyJoinTable(
+  tableName: string,
+): ManyToManyJoinTable | undefined {
+  return getSchemaIndex().joinTables.get(tableName)
+}
 
 /**
- * モデルとIDからキャッシュタグを生成
+ * スキーマのすべての暗黙的な多対多リレーションの中間テーブルを求める（getSchemaIndex() で一度だけ呼び出す）
  */
-export function generateCacheTags(
-  modelName: string,
-  id?: string,
-  tagGenerator?: (m: string, i?: string) => string[],
-): string[] {
-  if (tagGenerator != null) {
-    return tagGenerator(modelName, id)
+function collectManyToManyJoinTables(): Map<string, ManyToManyJoinTable> {
+  const models = schema.models as unknown as Record<string, ModelDefinition>
+  const joinTables = new Map<string, ManyToManyJoinTable>()
+  for (const [modelName, model] of Object.entries(models)) {
+    for (const field of Object.values(model.fields ?? {})) {
+      if (!field.array || !field.relation?.opposite) continue
+      const opposite = getModelFields(field.type)[field.relation.opposite]
+      if (!opposite?.array) continue
+
+      const [first, second] = [
+        field.originModel ?? modelName,
+        field.type,
+      ].sort()
+      const name = field.relation.name
+        ? `_${field.relation.name}`
+        : `_${first}To${second}`
+      joinTables.set(name, { models: [first, second], name })
+    }
   }
+  return joinTables
+}
 
-  const modelLower = modelName.toLowerCase()
-  const tags = [`${modelLower}:list`]
-
-  if (id) {
-    tags.push(`${modelLower}:${id}`)
+/**
+ * 属性の引数の式を値に展開
+ * 生成されたスキーマではリテラル式（`{ kind: 'literal', value }`）や
+ * 配列式（`{ kind: 'array', items: [...] }`）として保持される
+ */
+function unwrapExpression(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || !('kind' in value)) return value
+  if (value.kind === 'literal' && 'value' in value) return value.value
+  if (
+    value.kind === 'array' &&
+    'items' in value &&
+    Array.isArray(value.items)
+  ) {
+    return value.items.map(unwrapExpression)
   }
-
-  return tags
+  return value
 }
 
 /**
- * クエリ引数からIDを抽出
+ * モデルのデータベース上のテーブル名を取得
+ * @@map() が指定されていればその名前、なければモデル名
  */
-export function extractIdFromArgs(queryArgs: unknown): string | undefined {
-  if (!queryArgs || typeof queryArgs !== 'object') return
-
-  const args = queryArgs as Record<string, unknown>
+export function getTableName(modelName: string): string {
+  const attributes = getModelAttributes(modelName)
+  const mapAttr = attributes.find((attr) => attr.name === '@@map')
+  const mappedName = unwrapExpression(mapAttr?.args?.[0]?.value)
+  return typeof mappedName === 'string' ? mappedName : modelName
+}
 
-  // where句からIDを抽出
-  if (args.where && typeof args.where === 'object') {
-    const where = args.where as Record<string, unknown>
-    if (typeof where.id === 'string') return where.id
-    if (typeof where.id === 'number') return String(where.id)
+/**
+ * テーブル名から対応するモデル名を取得
+ * raw SQL の書き込み先の解決に使用するため、大文字・小文字は区別しない
+ * 暗黙的な多対多リレーションの中間テーブルはテーブル名をそのまま返す
+ * @returns 対応するモデルがなければ undefined
+ */
+export function getModelForTable(tableName: string): string | undefined {
+  if (getManyToManyJoinTable(tableName)) {
+    return tableName
   }
-
-  return
+  const normalized = tableName.toLowerCase()
+  return Object.keys(schema.models).find(
+    (modelName) => getTableName(modelName).toLowerCase() === normalized,
+  )
 }
 
 /**
- * クエリ引数のinclude/selectからリレーションで参照しているモデル名を抽出
- * @param queryArgs クエリ引数
- * @param modelName 親モデル名
- * @returns 参照しているリレーションモデル名の配列
+ * 参照先の削除・更新によってデータベース側で変更されるモデルを取得
+ * 参照アクションを推移的にたどる（Cascade の削除はさらに削除として、SetNull / SetDefault と
+ * Cascade の更新は外部キーの更新として伝播する）
+ * onDelete / onUpdate が未指定の場合は ZenStack のデフォルト
+ * （onDelete: 任意のリレーションは SetNull・必須は Restrict、onUpdate: Cascade）に従う
+ * @param modelName 削除・更新されるモデル名
+ * @param action 'delete' または 'update'
+ * @param changedFields 更新されたフィールド名（'update' の場合のみ、省略時はすべて）
+ * @returns 変更されるモデル名の配列（重複なし、起点のモデルは含まない）
  */
-// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: リレーション抽出ロジックの複雑性は妥当
-export function extractIncludedRelations(
-  queryArgs: unknown,
+export function getCascadeAffectedModels(
   modelName: string,
+  action: 'delete' | 'update',
+  changedFields?: readonly string[],
 ): string[] {
-  if (!queryArgs || typeof queryArgs !== 'object') return []
-
-  const args = queryArgs as Record<string, unknown>
-  const fields = getModelFields(modelName)
-  const includedModels: string[] = []
-
-  // include句をチェック
-  if (args.include && typeof args.include === 'object') {
-    const include = args.include as Record<string, unknown>
-    for (const [fieldName, value] of Object.entries(include)) {
-      if (value && fields[fieldName]?.relation) {
-        includedModels.push(fields[fieldName].type)
-      }
-    }
-  }
+  const models = schema.models as unknown as Record<string, ModelDefinition>
+  const affected = new Set<string>()
+  const visited = new Set<string>()
+  const queue = [{ action, changedFields, model: modelName }]
+
+  for (let current = queue.shift(); current; current = queue.shift()) {
+    const visitKey = `${current.model}:${current.action}:${current.changedFields ?? '*'}`
+    if (visited.has(visitKey)) continue
+    visited.add(visitKey)
+
+    for (const [dependentName, dependent] of Object.entries(models)) {
+      for (const field of Object.values(dependent.fields ?? {})) {
+        const { fields: foreignKeys, references } = field.relation ?? {}
+        if (field.type !== current.model || !foreignKeys?.length) continue
+        // 更新されたフィールドを参照していなければ伝播しない
+        const changed = current.changedFields
+        if (changed && !references?.some((ref) => changed.includes(ref))) {
+          continue
+        }
 
-  // select句をチェック（ネストされたリレーションを含む場合）
-  if (args.select && typeof args.select === 'object') {
-    const select = args.select as Record<string, unknown>
-    for (const [fieldName, value] of Object.entries(select)) {
-      if (value && typeof value === 'object' && fields[fieldName]?.relation) {
-        includedModels.push(fields[fieldName].type)
+        const referentialAction =
+          current.action === 'delete'
+            ? (field.relation?.onDelete ??
+              (field.optional ? 'SetNull' : 'Restrict'))
+            : (field.relation?.onUpdate ?? 'Cascade')
+        if (!PROPAGATING_REFERENTIAL_ACTIONS.has(referentialAction)) continue
+
+        if (dependentName !== modelName) affected.add(dependentName)
+        queue.push(
+          current.action === 'delete' && referentialAction === 'Cascade'
+            ? {
+                action: 'delete',
+                changedFields: undefined,
+                model: dependentName,
+              }
+            : {
+                action: 'update',
+                changedFields: foreignKeys,
+                model: dependentName,
+              },
+        )
       }
     }
   }
 
-  return includedModels
+  return [...affected]
 }
 
 /**
- * Date型をISO文字列に、Decimal型を文字列に再帰的に変換
- * unstable_cache はJSONシリアライズするため、DateオブジェクトやDecimalは文字列に変換される
- * この関数で事前に変換しておくことで、型の一貫性を保つ
+ * モデルのユニーク制約を取得
+ * 主キーを先頭に、スキーマの uniqueFields と @unique フィールドを重複なく返す
  */
-export function transformDates(obj: unknown): unknown {
-  if (obj === null || obj === undefined) return obj
-  if (obj instanceof Date) return obj.toISOString()
-  // Prisma Decimalは toString() で文字列に変換
-  // Decimal型かどうかは toFixed メソッドの存在で判定（Decimal.jsの特徴）
+export function getUniqueConstraints(modelName: string): UniqueConstraint[] {
+  const models = schema.models as unknown as Record<string, ModelDefinition>
+  const idFields = getIdFields(modelName)
+  const constraints: UniqueConstraint[] = [
+    { fields: idFields, name: idFields.join('_'), primary: true },
+  ]
+  const seen = new Set([[...idFields].sort().join(',')])
+
+  const addConstraint = (name: string, fields: string[]) => {
+    const key = [...fields].sort().join(',')
+    if (fields.length === 0 || seen.has(key)) return
+    seen.add(key)
+    constraints.push({ fields, name, primary: false })
+  }
+
+  const uniqueFields = models[modelName]?.uniqueFields ?? {}
+  for (const [name, info] of Object.entries(uniqueFields)) {
+    // 単一フィールドは { type } 、複合キーは { field: { type } } の形式
+    if (typeof info.type === 'string') {
+      addConstraint(name, [name])
+    } else {
+      addConstraint(name, Object.keys(info))
+    }
+  }
+
+  for (const field of Object.values(getModelFields(modelName))) {
+    if (field.unique) {
+      addConstraint(field.name, [field.name])
+    }
+  }
+
+  return constraints
+}
+
+/**
+ * モデルがアクセスポリシー（@@allow / @@deny、フィールドの @allow / @deny）を持っているかチェック
+ * 委譲モデルは継承階層のいずれかのモデルのポリシーも対象にする
+ */
+export function hasPolicyAttributes(modelName: string): boolean {
+  return getSchemaIndex().policyModels.has(modelName)
+}
+
+/**
+ * モデル自身がアクセスポリシーを持っているかチェック（getSchemaIndex() で一度だけ呼び出す）
+ */
+function hasOwnPolicyAttributes(modelName: string): boolean {
+  return (
+    getModelAttributes(modelName).some((attr) =>
+      MODEL_POLICY_ATTRIBUTES.has(attr.name),
+    ) ||
+    Object.values(getModelFields(modelName)).some((field) =>
+      field.attributes?.some((attr) => FIELD_POLICY_ATTRIBUTES.has(attr.name)),
+    )
+  )
+}
+
+/**
+ * モデルが @@cache.exclude() 属性を持っているかチェック
+ */
+export function hasExcludeAttribute(modelName: string): boolean {
+  const attributes = getModelAttributes(modelName)
+  return attributes.some((attr) => attr.name === '@@cache.exclude')
+}
+
+/**
+ * モデルの @@cache.tags() 属性からタグを取得
+ */
+export function getCustomTags(modelName: string): string[] | undefined {
+  const attributes = getModelAttributes(modelName)
+  const tagsAttr = attributes.find((attr) => attr.name === '@@cache.tags')
+  const value = unwrapExpression(tagsAttr?.args?.[0]?.value)
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string')
+  }
+  return
+}
+
+/**
+ * モデルの @@cache.dependsOn() 属性から依存するモデル名を取得
+ */
+export function getDependsOn(modelName: string): string[] | undefined {
+  const attributes = getModelAttributes(modelName)
+  const dependsOnAttr = attributes.find(
+    (attr) => attr.name === '@@cache.dependsOn',
+  )
+  const value = unwrapExpression(dependsOnAttr?.args?.[0]?.value)
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string')
+  }
+  return
+}
+
+/**
+ * @@cache.dependsOn() で指定したモデルに依存しているモデル名を取得
+ * 依存しているモデルにさらに依存しているモデルも推移的にたどる
+ * @returns 依存しているモデル名の配列（自身は含まない）
+ */
+export function getDependentModels(modelName: string): string[] {
+  return [...(getSchemaIndex().dependentModels.get(modelName) ?? [])]
+}
+
+/**
+ * すべてのモデルについて、@@cache.dependsOn() で推移的に依存しているモデルを求める
+ * （getSchemaIndex() で一度だけ呼び出す）
+ */
+function collectDependentModels(): Map<string, string[]> {
+  // 依存先 → 直接依存しているモデル
+  const directDependents = new Map<string, string[]>()
+  for (const candidate of Object.keys(schema.models)) {
+    for (const dependency of getDependsOn(candidate) ?? []) {
+      directDependents.set(dependency, [
+        ...(directDependents.get(dependency) ?? []),
+        candidate,
+      ])
+    }
+  }
+
+  const dependentModels = new Map<string, string[]>()
+  for (const modelName of directDependents.keys()) {
+    const dependents = new Set<string>()
+    const queue = [modelName]
+    for (let current = queue.shift(); current; current = queue.shift()) {
+      for (const candidate of directDependents.get(current) ?? []) {
+        if (candidate === modelName || dependents.has(candidate)) continue
+        dependents.add(candidate)
+        queue.push(candidate)
+      }
+    }
+    dependentModels.set(modelName, [...dependents])
+  }
+  return dependentModels
+}
+
+/**
+ * モデルの @@cache.life() 属性からライフタイムを取得
+ */
+export function getCustomLife(modelName: string): CacheLifeProfile | undefined {
+  const attributes = getModelAttributes(modelName)
+  const lifeAttr = attributes.find((attr) => attr.name === '@@cache.life')
+  const value = unwrapExpression(lifeAttr?.args?.[0]?.value)
   if (
+    typeof value === 'string' &&
+    (CACHE_LIFE_PROFILES as readonly string[]).includes(value)
+  ) {
+    return value as CacheLifeProfile
+  }
+  return
+}
+
+/**
+ * スキーマから求めたモデル間の関係
+ * スキーマは静的なため、読み取り・ミューテーションのたびに全モデルを走査しないよう一度だけ構築する
+ */
+interface SchemaIndex {
+  /** モデル名 → 委譲の継承階層のモデル名（自身は含まない） */
+  readonly delegateHierarchies: ReadonlyMap<string, readonly string[]>
+  /** 依存先のモデル名 → @@cache.dependsOn() で推移的に依存しているモデル名 */
+  readonly dependentModels: ReadonlyMap<string, readonly string[]>
+  /** 中間テーブル名 → 暗黙的な多対多リレーションの中間テーブル */
+  readonly joinTables: ReadonlyMap<string, ManyToManyJoinTable>
+  /** アクセスポリシーを持つモデル名（継承階層のモデルのポリシーを含む） */
+  readonly policyModels: ReadonlySet<string>
+}
+
+let schemaIndex: SchemaIndex | undefined
+
+/**
+ * スキーマから求めたモデル間の関係を取得（初回の呼び出しで構築する）
+ */
+function getSchemaIndex(): SchemaIndex {
+  if (schemaIndex) return schemaIndex
+
+  const modelNames = Object.keys(schema.models)
+  const delegateHierarchies = new Map(
+    modelNames.map((modelName) => [
+      modelName,
+      collectDelegateHierarchy(modelName),
+    ]),
+  )
+  const policyModels = new Set(
+    modelNames.filter((modelName) =>
+      [modelName, ...(delegateHierarchies.get(modelName) ?? [])].some(
+        hasOwnPolicyAttributes,
+      ),
+    ),
+  )
+  schemaIndex = {
+    delegateHierarchies,
+    dependentModels: collectDependentModels(),
+    joinTables: collectManyToManyJoinTables(),
+    policyModels,
+  }
+  return schemaIndex
+}
+
+// ============================================================================
+// 定数
+// ============================================================================
+
+/** 読み取り操作 */
+const READ_OPERATIONS = [
+  'findMany',
+  'findUnique',
+  'findFirst',
+  'findUniqueOrThrow',
+  'findFirstOrThrow',
+  'count',
+  'aggregate',
+  'groupBy',
+] as const
+
+/** include / select をたどるリレーションの深さのデフォルトの上限 */
+const DEFAULT_MAX_RELATION_DEPTH = 10
+
+/** 参照先の変更をデータベース側で伝播させる参照アクション */
+const PROPAGATING_REFERENTIAL_ACTIONS = new Set<ReferentialAction>([
+  'Cascade',
+  'SetNull',
+  'SetDefault',
+])
+
+/** 論理演算のフィルタキー */
+const LOGICAL_FILTER_KEYS = new Set(['AND', 'OR', 'NOT'])
+
+/** リレーションフィルタのキー（to-many: some / every / none、to-one: is / isNot） */
+const RELATION_FILTER_KEYS = new Set(['some', 'every', 'none', 'is', 'isNot'])
+
+/** aggregate / groupBy の結果でフィールドごとの集計値を持つキー */
+const AGGREGATE_FIELD_KEYS = ['_min', '_max', '_sum', '_avg'] as const
+
+/** SQL の識別子（クォートされた名前を含む） */
+const SQL_IDENTIFIER = String.raw`(?:"[^"]+"|\`[^\`]+\`|\[[^\]]+\]|[\w$]+)`
+
+/** スキーマ等で修飾された SQL のテーブル名 */
+const SQL_QUALIFIED_NAME = String.raw`${SQL_IDENTIFIER}(?:\s*\.\s*${SQL_IDENTIFIER})*`
+
+/** SQL のコメントと文字列リテラル */
+const SQL_COMMENT_OR_STRING_REGEX = /--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'/g
+
+/** SQL のクォートされた識別子 */
+const SQL_QUOTED_IDENTIFIER_REGEX = /"[^"]*"|`[^`]*`|\[[^\]]*\]/g
+
+/**
+ * raw SQL の書き込みキーワード
+ * ON DELETE / DO UPDATE / ON DUPLICATE KEY UPDATE / FOR UPDATE / THEN INSERT 等の句は除く
+ * CALL / EXEC はストアドプロシージャの中で書き込む可能性があるため含める
+ */
+const RAW_WRITE_KEYWORD_REGEX =
+  /(?<!\b(?:ON|DO|KEY|FOR|THEN)\s+)\b(?:INSERT|UPDATE|DELETE|MERGE|TRUNCATE|REPLACE(?=\s+INTO\b)|CALL|EXEC(?:UTE)?)\b/gi
+
+/** raw SQL の書き込みキーワードごとの書き込み先テーブルのパターンと操作 */
+const RAW_WRITE_TARGET_PATTERNS: Partial<
+  Record<string, { pattern: RegExp; actions: RawWriteTarget['action'][] }>
+> = {
+  DELETE: {
+    actions: ['delete'],
+    pattern: new RegExp(
+      String.raw`DELETE\s+FROM\s+(?:ONLY\s+)?(${SQL_QUALIFIED_NAME})`,
+      'iy',
+    ),
+  },
+  INSERT: {
+    actions: ['create'],
+    pattern: new RegExp(
+      String.raw`INSERT\s+(?:OR\s+\w+\s+)?(?:IGNORE\s+)?INTO\s+(${SQL_QUALIFIED_NAME})`,
+      'iy',
+    ),
+  },
+  MERGE: {
+    actions: ['update', 'delete'],
+    pattern: new RegExp(
+      String.raw`MERGE\s+INTO\s+(${SQL_QUALIFIED_NAME})`,
+      'iy',
+    ),
+  },
+  REPLACE: {
+    actions: ['delete'],
+    pattern: new RegExp(
+      String.raw`REPLACE\s+INTO\s+(${SQL_QUALIFIED_NAME})`,
+      'iy',
+    ),
+  },
+  TRUNCATE: {
+    actions: ['delete'],
+    pattern: new RegExp(
+      String.raw`TRUNCATE\s+(?:TABLE\s+)?(?:ONLY\s+)?(${SQL_QUALIFIED_NAME}(?:\s*,\s*${SQL_QUALIFIED_NAME})*)`,
+      'iy',
+    ),
+  },
+  UPDATE: {
+    actions: ['update'],
+    pattern: new RegExp(
+      String.raw`UPDATE\s+(?:OR\s+\w+\s+)?(?:ONLY\s+)?(${SQL_QUALIFIED_NAME})`,
+      'iy',
+    ),
+  },
+}
+
+/** プラグインID */
+const PLUGIN_ID = 'nextjs-cache'
+
+/** ZenStack のポリシープラグインのID */
+const POLICY_PLUGIN_ID = 'policy'
+
+/** モデルのアクセスポリシー属性 */
+const MODEL_POLICY_ATTRIBUTES = new Set(['@@allow', '@@deny'])
+
+/** フィールドのアクセスポリシー属性 */
+const FIELD_POLICY_ATTRIBUTES = new Set(['@allow', '@deny'])
+
+/** キャッシュライフプロファイル */
+const CACHE_LIFE_PROFILES = [
+  'seconds',
+  'minutes',
+  'hours',
+  'days',
+  'weeks',
+  'max',
+] as const satisfies readonly CacheLifeProfile[]
+
+/** `$cache` クエリ引数のスキーマ */
+const cacheQueryOptionsSchema = z
+  .object({
+    life: z.enum(CACHE_LIFE_PROFILES).optional(),
+    skip: z.boolean().optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .strict()
+
+/** インメモリキャッシュストアのデフォルト最大エントリ数 */
+const DEFAULT_MEMORY_CACHE_MAX_ENTRIES = 1000
+
+/** Cache Components のキャッシュミス時に実行するクエリの最大保持数 */
+const CACHE_COMPONENTS_MAX_QUERIES = 1000
+
+/** 1秒あたりのミリ秒数 */
+const MILLISECONDS_PER_SECOND = 1000
+
+// ============================================================================
+// ユーティリティ関数
+// ============================================================================
+
+/**
+ * モデルとIDからキャッシュタグを生成
+ */
+export function generateCacheTags(
+  modelName: string,
+  id?: string,
+  tagGenerator?: (m: string, i?: string) => string[],
+): string[] {
+  if (tagGenerator != null) {
+    return tagGenerator(modelName, id)
+  }
+
+  const modelLower = modelName.toLowerCase()
+  const tags = [`${modelLower}:list`]
+
+  if (id) {
+    tags.push(`${modelLower}:${id}`)
+  }
+
+  return tags
+}
+
+/**
+ * キャッシュスコープのタグを生成
+ * スコープ（デフォルトはユーザーID）ごとにキャッシュした読み取りに付与され、
+ * モデルのタグと区別するため `scope:` を前置する
+ */
+export function generateScopeTag(scope: string): string {
+  return `scope:${scope}`
+}
+
+/**
+ * モデルとIDからキャッシュタグを解決
+ * 読み取り時のタグ付けとミューテーション時の無効化で共通して使用し、
+ * 同じタグ体系で付与・無効化されるようにする
+ * カスタムタグ生成関数 → スキーマの @@cache.tags() → デフォルト生成 の順に優先
+ */
+export function resolveCacheTags(
+  modelName: string,
+  id?: string,
+  tagGenerator?: (m: string, i?: string) => string[],
+): string[] {
+  // カスタムタグ生成関数が指定されていればそれを使用
+  if (tagGenerator != null) {
+    return [...tagGenerator(modelName, id)]
+  }
+
+  // スキーマの @@cache.tags() をチェック
+  const customTags = getCustomTags(modelName)
+  if (customTags && customTags.length > 0) {
+    // カスタムタグにIDを追加
+    if (id) {
+      return [...customTags, `${modelName.toLowerCase()}:${id}`]
+    }
+    return customTags
+  }
+
+  // デフォルトのタグ生成
+  return generateCacheTags(modelName, id)
+}
+
+/**
+ * ユニークキーの値をエンティティタグ用の文字列にシリアライズ
+ * 単一フィールドの主キーは値のみ（例: `123`）、それ以外は `field=value` を `,` で連結する
+ * （例: `userId=u1,orgId=o1`、`email=a@example.com`）
+ * @returns 値が揃っていない、またはスカラー値でない場合は undefined
+ */
+export function serializeUniqueKey(
+  constraint: UniqueConstraint,
+  values: Record<string, unknown>,
+): string | undefined {
+  const parts: string[] = []
+  for (const field of constraint.fields) {
+    const value = serializeKeyValue(values[field])
+    if (value === undefined) return
+    parts.push(`${field}=${value}`)
+  }
+
+  if (constraint.primary && constraint.fields.length === 1) {
+    return serializeKeyValue(values[constraint.fields[0]])
+  }
+  return parts.join(',')
+}
+
+/**
+ * エンティティからユニークキーを抽出
+ * 読み取り時の extractIdFromArgs と同じ形式でシリアライズするため、
+ * どのユニークキーで取得されたキャッシュも無効化できる
+ * @returns 主キーを先頭にしたシリアライズ済みキーの配列
+ */
+export function getEntityKeys(modelName: string, entity: unknown): string[] {
+  if (!entity || typeof entity !== 'object') return []
+
+  const keys: string[] = []
+  for (const constraint of getUniqueConstraints(modelName)) {
+    const key = serializeUniqueKey(
+      constraint,
+      entity as Record<string, unknown>,
+    )
+    if (key !== undefined) {
+      keys.push(key)
+    }
+  }
+  return keys
+}
+
+/**
+ * エンティティの外部キーから参照先エンティティのキーを抽出
+ * 外部キーを変更するミューテーションで、変更前後の参照先のキャッシュを無効化するために使用する
+ * @returns 参照先のモデル名とシリアライズ済みキーの組の配列
+ */
+export function getReferencedEntityKeys(
+  modelName: string,
+  entity: unknown,
+): { model: string; key: string }[] {
+  if (!entity || typeof entity !== 'object') return []
+
+  const values = entity as Record<string, unknown>
+  const referenced: { model: string; key: string }[] = []
+  for (const field of Object.values(getModelFields(modelName))) {
+    const { fields: foreignKeys, references } = field.relation ?? {}
+    if (!foreignKeys?.length || !references?.length) continue
+
+    const referencedValues = Object.fromEntries(
+      references.map((ref, i) => [ref, values[foreignKeys[i]]]),
+    )
+    for (const key of getEntityKeys(field.type, referencedValues)) {
+      referenced.push({ key, model: field.type })
+    }
+  }
+  return referenced
+}
+
+/**
+ * ユニークキーの値を文字列に変換
+ */
+function serializeKeyValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return String(value)
+  }
+  if (value instanceof Date) return value.toISOString()
+  return
+}
+
+/**
+ * クエリ引数からエンティティを一意に特定するキーを抽出
+ * スキーマの @id / @@id / @unique / @@unique 定義をもとに、
+ * `where: { id }`、`where: { email }`、`where: { userId_orgId: { userId, orgId } }` 等を解決する
+ * @param queryArgs クエリ引数
+ * @param modelName モデル名（省略時は `id` フィールドのみを主キーとして扱う）
+ */
+export function extractIdFromArgs(
+  queryArgs: unknown,
+  modelName?: string,
+): string | undefined {
+  if (!queryArgs || typeof queryArgs !== 'object') return
+
+  const args = queryArgs as Record<string, unknown>
+  if (!args.where || typeof args.where !== 'object') return
+
+  const where = args.where as Record<string, unknown>
+  const constraints: UniqueConstraint[] = modelName
+    ? getUniqueConstraints(modelName)
+    : [{ fields: ['id'], name: 'id', primary: true }]
+
+  // 主キーを優先して、where句で指定されているユニーク制約を探す
+  for (const constraint of constraints) {
+    // 複合キーは `userId_orgId: { ... }` 形式、フラットな指定にも対応
+    const compound = where[constraint.name]
+    const values =
+      constraint.fields.length > 1 && compound && typeof compound === 'object'
+        ? (compound as Record<string, unknown>)
+        : where
+    const key = serializeUniqueKey(constraint, values)
+    if (key !== undefined) return key
+  }
+
+  return
+}
+
+/**
+ * クエリ引数のinclude/selectからリレーションで参照しているモデル名を抽出
+ * ネストした include / select もモデルごとにスキーマを参照してたどる
+ * @param queryArgs クエリ引数
+ * @param modelName 親モデル名
+ * @param maxDepth たどるリレーションの深さの上限（1 で直下のリレーションのみ）
+ * @returns 参照しているリレーションモデル名の配列（重複なし）
+ */
+export function extractIncludedRelations(
+  queryArgs: unknown,
+  modelName: string,
+  maxDepth = DEFAULT_MAX_RELATION_DEPTH,
+): string[] {
+  const models = new Set<string>()
+  collectRelationDependencies(queryArgs, modelName, models, {
+    depth: 1,
+    maxDepth,
+    withFilters: false,
+  })
+  return [...models]
+}
+
+/**
+ * collectRelationDependencies のたどり方
+ */
+interface RelationTraversal {
+  /** 現在のリレーションの深さ（直下のリレーションが 1） */
+  readonly depth: number
+  readonly maxDepth: number
+  /** where / orderBy で参照するリレーションも含めるかどうか */
+  readonly withFilters: boolean
+}
+
+/**
+ * クエリ引数から依存しているリレーションモデル名を再帰的に収集
+ */
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: リレーション抽出ロジックの複雑性は妥当
+function collectRelationDependencies(
+  queryArgs: unknown,
+  modelName: string,
+  models: Set<string>,
+  traversal: RelationTraversal,
+): void {
+  if (!queryArgs || typeof queryArgs !== 'object') return
+
+  const args = queryArgs as Record<string, unknown>
+  const fields = getModelFields(modelName)
+
+  if (traversal.withFilters) {
+    collectFilterRelations(args.where, modelName, models)
+    collectOrderByRelations(args.orderBy, modelName, models)
+  }
+
+  // include句・select句をチェック
+  for (const clause of [args.include, args.select]) {
+    if (!clause || typeof clause !== 'object') continue
+
+    for (const [fieldName, value] of Object.entries(clause)) {
+      if (fieldName === '_count') {
+        collectCountedRelations(value, fields, models, traversal)
+        continue
+      }
+
+      const field = fields[fieldName]
+      if (!value || !field?.relation) continue
+      models.add(field.type)
+
+      // ネストした include / select は関連モデルのクエリ引数としてたどる
+      if (typeof value === 'object' && traversal.depth < traversal.maxDepth) {
+        collectRelationDependencies(value, field.type, models, {
+          ...traversal,
+          depth: traversal.depth + 1,
+        })
+      }
+    }
+  }
+}
+
+/**
+ * where句のリレーションフィルタで参照しているモデル名を抽出
+ * AND / OR / NOT と some / every / none / is / isNot を再帰的にたどる
+ * @param where where句
+ * @param modelName where句の対象モデル名
+ * @returns 参照しているリレーションモデル名の配列（重複なし）
+ */
+export function extractFilterRelations(
+  where: unknown,
+  modelName: string,
+): string[] {
+  const models = new Set<string>()
+  collectFilterRelations(where, modelName, models)
+  return [...models]
+}
+
+/**
+ * extractFilterRelations の再帰処理
+ */
+function collectFilterRelations(
+  where: unknown,
+  modelName: string,
+  models: Set<string>,
+): void {
+  if (!where || typeof where !== 'object') return
+  if (Array.isArray(where)) {
+    for (const item of where) {
+      collectFilterRelations(item, modelName, models)
+    }
+    return
+  }
+
+  const fields = getModelFields(modelName)
+  for (const [key, value] of Object.entries(where)) {
+    if (LOGICAL_FILTER_KEYS.has(key)) {
+      collectFilterRelations(value, modelName, models)
+      continue
+    }
+
+    const field = fields[key]
+    if (!field?.relation) continue
+    models.add(field.type)
+    if (!value || typeof value !== 'object') continue
+
+    // some / every / none / is / isNot の中は関連モデルのフィルタ
+    // `author: { name: 'x' }` のような省略形はそのまま関連モデルのフィルタとして扱う
+    const filter = value as Record<string, unknown>
+    const relationFilterKeys = Object.keys(filter).filter((k) =>
+      RELATION_FILTER_KEYS.has(k),
+    )
+    if (relationFilterKeys.length === 0) {
+      collectFilterRelations(filter, field.type, models)
+    }
+    for (const filterKey of relationFilterKeys) {
+      collectFilterRelations(filter[filterKey], field.type, models)
+    }
+  }
+}
+
+/**
+ * orderBy句のリレーションで参照しているモデル名を抽出
+ * `{ author: { name: 'asc' } }` や `{ comments: { _count: 'desc' } }` のようなリレーションの並び替えに対応
+ * @param orderBy orderBy句（オブジェクトまたは配列）
+ * @param modelName orderBy句の対象モデル名
+ * @returns 参照しているリレーションモデル名の配列（重複なし）
+ */
+export function extractOrderByRelations(
+  orderBy: unknown,
+  modelName: string,
+): string[] {
+  const models = new Set<string>()
+  collectOrderByRelations(orderBy, modelName, models)
+  return [...models]
+}
+
+/**
+ * extractOrderByRelations の再帰処理
+ */
+function collectOrderByRelations(
+  orderBy: unknown,
+  modelName: string,
+  models: Set<string>,
+): void {
+  if (!orderBy || typeof orderBy !== 'object') return
+  if (Array.isArray(orderBy)) {
+    for (const item of orderBy) {
+      collectOrderByRelations(item, modelName, models)
+    }
+    return
+  }
+
+  const fields = getModelFields(modelName)
+  for (const [key, value] of Object.entries(orderBy)) {
+    const field = fields[key]
+    if (!field?.relation) continue
+    models.add(field.type)
+    collectOrderByRelations(value, field.type, models)
+  }
+}
+
+/**
+ * クエリ結果が依存しているリレーションモデル名を抽出
+ * include / select で読み込むリレーションに加えて、where / orderBy で参照するリレーションも含める
+ * ネストした include / select の where / orderBy もたどる
+ * @param queryArgs クエリ引数
+ * @param modelName 対象モデル名
+ * @param maxDepth たどるリレーションの深さの上限（1 で直下のリレーションのみ）
+ * @returns 依存しているリレーションモデル名の配列（重複なし）
+ */
+export function extractRelationDependencies(
+  queryArgs: unknown,
+  modelName: string,
+  maxDepth = DEFAULT_MAX_RELATION_DEPTH,
+): string[] {
+  const models = new Set<string>()
+  collectRelationDependencies(queryArgs, modelName, models, {
+    depth: 1,
+    maxDepth,
+    withFilters: true,
+  })
+  return [...models]
+}
+
+/**
+ * `_count` の指定から件数を取得しているリレーションのモデル名を収集
+ * - `_count: true`: すべての to-many リレーション
+ * - `_count: { select: { posts: true } }`: 指定したリレーションのみ
+ * - `_count: { select: { posts: { where } } }`: 件数の絞り込みで参照するリレーションも含める
+ */
+function collectCountedRelations(
+  count: unknown,
+  fields: Record<string, FieldDefinition>,
+  models: Set<string>,
+  traversal: RelationTraversal,
+): void {
+  if (count === true) {
+    for (const field of Object.values(fields)) {
+      if (field.relation && field.array) models.add(field.type)
+    }
+    return
+  }
+  if (!count || typeof count !== 'object') return
+
+  const select = (count as { select?: unknown }).select
+  if (!select || typeof select !== 'object') return
+
+  for (const [fieldName, value] of Object.entries(select)) {
+    const field = fields[fieldName]
+    if (!value || !field?.relation) continue
+    models.add(field.type)
+    if (traversal.withFilters && typeof value === 'object') {
+      collectFilterRelations(
+        (value as { where?: unknown }).where,
+        field.type,
+        models,
+      )
+    }
+  }
+}
+
+/**
+ * Decimal型かどうかを判定
+ * toFixed メソッドと内部プロパティ d の存在で判定（Decimal.jsの特徴）
+ */
+function isDecimal(
+  obj: unknown,
+): obj is { d: unknown; toFixed: unknown; toString: () => string } {
+  return (
     typeof obj === 'object' &&
     obj !== null &&
     'toFixed' in obj &&
     typeof (obj as { toFixed: unknown }).toFixed === 'function' &&
     'd' in obj // Decimal.jsの内部プロパティ
-  ) {
-    return (obj as { toString: () => string }).toString()
+  )
+}
+
+/**
+ * Date型をISO文字列に、Decimal型を文字列に再帰的に変換
+ * unstable_cache はJSONシリアライズするため、DateオブジェクトやDecimalは文字列に変換される
+ * この関数で事前に変換しておくことで、型の一貫性を保つ
+ */
+export function transformDates(obj: unknown): unknown {
+  if (obj === null || obj === undefined) return obj
+  if (obj instanceof Date) return obj.toISOString()
+  // Decimalは toString() で文字列に変換
+  if (isDecimal(obj)) {
+    return obj.toString()
   }
   if (Array.isArray(obj)) return obj.map(transformDates)
   if (typeof obj === 'object') {
@@ -341,97 +1552,449 @@ export function transformDates(obj: unknown): unknown {
   return obj
 }
 
-/** ISO 8601形式の日付文字列かどうかを判定 */
-const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/
+/** ISO 8601形式の日付文字列かどうかを判定 */
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/
+
+/**
+ * ISO文字列をDate型に、数値文字列をDecimal型に再帰的に復元
+ * キャッシュから取得したデータのDateTime型/Decimal型フィールドを復元
+ * @param obj 変換対象のオブジェクト
+ * @param modelName モデル名（型フィールドを特定するため）
+ * @param operation 操作名（aggregate / groupBy の結果の形を判別するため）
+ */
+export function restoreDates(
+  obj: unknown,
+  modelName: string,
+  operation?: string,
+): unknown {
+  if (operation === 'aggregate' || operation === 'groupBy') {
+    return restoreAggregateResult(obj, modelName)
+  }
+  return restoreTypesInternal(obj, modelName)
+}
+
+/**
+ * aggregate / groupBy の結果を復元
+ * - グループ化したフィールド: モデルのフィールドとして復元
+ * - _min / _max / _sum / _avg: 集計対象のフィールドとして復元
+ * - _count: 件数のみのため復元不要
+ */
+function restoreAggregateResult(obj: unknown, modelName: string): unknown {
+  // groupBy はグループごとの配列
+  if (Array.isArray(obj)) {
+    return obj.map((row) => restoreAggregateResult(row, modelName))
+  }
+  if (!obj || typeof obj !== 'object') return obj
+
+  const restored = restoreTypesInternal(obj, modelName) as Record<
+    string,
+    unknown
+  >
+  for (const key of AGGREGATE_FIELD_KEYS) {
+    const value = restored[key]
+    if (value && typeof value === 'object') {
+      restored[key] = restoreTypesInternal(value, modelName)
+    }
+  }
+  return restored
+}
+
+/**
+ * 内部復元関数
+ */
+function restoreTypesInternal(obj: unknown, modelName: string): unknown {
+  if (obj === null || obj === undefined) return obj
+
+  // 配列の場合は各要素を再帰処理
+  if (Array.isArray(obj)) {
+    return obj.map((item) => restoreTypesInternal(item, modelName))
+  }
+
+  // オブジェクトの場合
+  if (typeof obj === 'object') {
+    const dateTimeFields = getDateTimeFields(modelName)
+    const decimalFields = getDecimalFields(modelName)
+    const fields = getModelFields(modelName)
+
+    return Object.fromEntries(
+      Object.entries(obj as Record<string, unknown>).map(([key, value]) => {
+        // DateTime型フィールドでISO文字列の場合はDateに変換
+        if (
+          dateTimeFields.has(key) &&
+          typeof value === 'string' &&
+          ISO_DATE_REGEX.test(value)
+        ) {
+          return [key, new Date(value)]
+        }
+
+        // Decimal型フィールドで文字列の場合は、ORM と同じ decimal.js の Decimal に変換
+        // 数値は ORM が数値で返した値（集計の _sum / _avg 等）のためそのまま返す
+        if (decimalFields.has(key) && typeof value === 'string') {
+          return [key, new Decimal(value)]
+        }
+
+        // リレーションフィールドの場合は再帰的に処理
+        const field = fields[key]
+        if (field?.relation && value != null) {
+          return [key, restoreTypesInternal(value, field.type)]
+        }
+
+        return [key, value]
+      }),
+    )
+  }
+
+  return obj
+}
+
+/**
+ * キャッシュに保存する値を、型を保ったまま JSON シリアライズ可能な形に変換
+ * DateTime / Decimal / BigInt / Bytes / 有限でない数値と `$type` キーを持つオブジェクトは型情報付きで表現し、
+ * fromCacheValue() で元の値に戻す。それ以外の値はそのまま保存する
+ */
+export function toCacheValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return { $type: 'BigInt', value: value.toString() }
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { $type: 'Float', value: String(value) }
+  }
+  if (value === null || typeof value !== 'object') return value
+  if (value instanceof Date) {
+    return {
+      $type: 'DateTime',
+      value: Number.isNaN(value.getTime())
+        ? 'Invalid Date'
+        : value.toISOString(),
+    }
+  }
+  if (isDecimal(value)) {
+    return { $type: 'Decimal', value: value.toString() }
+  }
+  if (value instanceof Uint8Array) {
+    return {
+      $type: Buffer.isBuffer(value) ? 'Buffer' : 'Bytes',
+      value: Buffer.from(value).toString('base64'),
+    }
+  }
+  if (Array.isArray(value)) return value.map(toCacheValue)
+
+  const converted = Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, toCacheValue(v)]),
+  )
+  // 型情報の表現と区別するため、`$type` キーを持つオブジェクトは包んで保存する
+  return '$type' in converted
+    ? { $type: 'Object', value: converted }
+    : converted
+}
+
+/**
+ * toCacheValue() で変換した値を元の値に戻す
+ */
+export function fromCacheValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value
+  if (Array.isArray(value)) return value.map(fromCacheValue)
+
+  const { $type, value: typed } = value as { $type?: unknown; value?: unknown }
+  if (typeof typed === 'string') {
+    switch ($type) {
+      case 'BigInt':
+        return BigInt(typed)
+      case 'Float':
+        return Number(typed)
+      case 'DateTime':
+        return new Date(typed)
+      case 'Decimal':
+        return new Decimal(typed)
+      case 'Buffer':
+        return Buffer.from(typed, 'base64')
+      case 'Bytes':
+        return new Uint8Array(Buffer.from(typed, 'base64'))
+      default:
+        break
+    }
+  }
+  const entries =
+    $type === 'Object' && typed && typeof typed === 'object' ? typed : value
+  return Object.fromEntries(
+    Object.entries(entries).map(([k, v]) => [k, fromCacheValue(v)]),
+  )
+}
+
+/**
+ * クエリ引数から `$cache` オプションを分離して検証
+ * `$cache` は ORM に渡さず、キャッシュキーにも含めない
+ * @throws `$cache` の形式が不正な場合
+ */
+export function splitCacheOptions(
+  queryArgs: Record<string, unknown> | undefined,
+): {
+  args: Record<string, unknown> | undefined
+  cacheOptions: CacheQueryOptions | undefined
+} {
+  if (!queryArgs || !('$cache' in queryArgs)) {
+    return { args: queryArgs, cacheOptions: undefined }
+  }
+
+  const { $cache, ...args } = queryArgs
+  return {
+    args,
+    cacheOptions:
+      $cache === undefined ? undefined : cacheQueryOptionsSchema.parse($cache),
+  }
+}
+
+/**
+ * 変更前後のエンティティで値が変わったフィールド名を取得
+ * 行の対応が取れない場合もあるため、フィールドごとの値の集合で比較する
+ */
+function getChangedFields(
+  beforeEntities: readonly Record<string, unknown>[],
+  afterEntities: readonly Record<string, unknown>[],
+): string[] {
+  const fields = new Set(
+    [...beforeEntities, ...afterEntities].flatMap((entity) =>
+      Object.keys(entity),
+    ),
+  )
+  const valuesOf = (
+    entities: readonly Record<string, unknown>[],
+    field: string,
+  ) => new Set(entities.map((entity) => serializeQueryArgs(entity[field])))
+
+  return [...fields].filter((field) => {
+    const before = valuesOf(beforeEntities, field)
+    const after = valuesOf(afterEntities, field)
+    return (
+      before.size !== after.size ||
+      [...before].some((value) => !after.has(value))
+    )
+  })
+}
+
+/**
+ * raw SQL の書き込み先
+ */
+export interface RawWriteTarget {
+  /** テーブル名（スキーマ修飾とクォートを除いたもの） */
+  readonly table: string
+  /** テーブルに対する操作 */
+  readonly action: 'create' | 'update' | 'delete'
+}
+
+/**
+ * raw SQL から INSERT / UPDATE / DELETE / MERGE / TRUNCATE の書き込み先テーブルを抽出
+ * コメント・文字列リテラル・クォートされた識別子の中のキーワードは無視する
+ * @returns 書き込み先の配列（書き込みを含まない場合は空配列）、
+ * 書き込み先を解析できない場合とストアドプロシージャを呼び出す場合は undefined
+ */
+export function extractRawWriteTargets(
+  sql: string,
+): RawWriteTarget[] | undefined {
+  const statement = sql.replace(SQL_COMMENT_OR_STRING_REGEX, ' ')
+  // 書き込み先のパターンは元の位置で照合するため、識別子は同じ長さの空白に置き換える
+  const keywords = statement.replace(
+    SQL_QUOTED_IDENTIFIER_REGEX,
+    (identifier) => ' '.repeat(identifier.length),
+  )
+  const targets: RawWriteTarget[] = []
+
+  for (const match of keywords.matchAll(RAW_WRITE_KEYWORD_REGEX)) {
+    const target = RAW_WRITE_TARGET_PATTERNS[match[0].toUpperCase()]
+    if (!target) return
+    const { pattern, actions } = target
+    pattern.lastIndex = match.index
+    const tables = pattern.exec(statement)?.[1]
+    if (!tables) return
+
+    for (const qualifiedName of tables.split(/\s*,\s*/)) {
+      // スキーマ修飾を除いた最後の識別子をテーブル名とする
+      const identifiers = qualifiedName.match(
+        new RegExp(SQL_IDENTIFIER, 'g'),
+      ) as string[]
+      const table = identifiers[identifiers.length - 1].replace(
+        /^["`[]|["`\]]$/g,
+        '',
+      )
+      for (const action of actions) {
+        targets.push({ action, table })
+      }
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Kysely のクエリノードが参照しているテーブル名を取得
+ * サブクエリ・結合・CTE の中もたどり、CTE とエイリアスの名前は除く
+ * @returns テーブル名の配列、raw SQL の断片を含むため参照先を特定できない場合は undefined
+ */
+export function extractQueryTables(node: unknown): string[] | undefined {
+  const tables = new Set<string>()
+  const localNames = new Set<string>()
+  if (!collectQueryTables(node, tables, localNames)) return
+  return [...tables].filter((table) => !localNames.has(table))
+}
 
 /**
- * ISO文字列をDate型に、数値文字列をDecimal型に再帰的に復元
- * キャッシュから取得したデータのDateTime型/Decimal型フィールドを復元
- * @param obj 変換対象のオブジェクト
- * @param modelName モデル名（型フィールドを特定するため）
+ * クエリノードを再帰的にたどってテーブル名と CTE・エイリアスの名前を収集
+ * @returns raw SQL の断片を含む場合は false
  */
-export function restoreDates(
-  obj: unknown,
-  modelName: string,
-): unknown {
-  // Prisma.Decimalを動的にインポート（テスト環境では利用不可の場合がある）
-  let PrismaDecimal: typeof import('@prisma/client/runtime/client').Decimal | null = null
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const { Decimal } = require('@prisma/client/runtime/client')
-    PrismaDecimal = Decimal
-  } catch {
-    // Prisma Decimalが利用不可な環境では文字列のまま返す
+function collectQueryTables(
+  node: unknown,
+  tables: Set<string>,
+  localNames: Set<string>,
+): boolean {
+  if (Array.isArray(node)) {
+    return node.every((child) => collectQueryTables(child, tables, localNames))
   }
+  if (!node || typeof node !== 'object') return true
 
-  return restoreTypesInternal(obj, modelName, PrismaDecimal)
+  const queryNode = node as {
+    kind?: unknown
+    table?: { identifier?: { name?: unknown }; table?: unknown }
+    alias?: { name?: unknown }
+  }
+  switch (queryNode.kind) {
+    case 'RawNode':
+      return false
+    case 'ValueNode':
+      return true
+    case 'TableNode': {
+      const name = queryNode.table?.identifier?.name
+      if (typeof name === 'string') tables.add(name)
+      return true
+    }
+    case 'CommonTableExpressionNameNode': {
+      const cteTables = new Set<string>()
+      collectQueryTables(queryNode.table, cteTables, localNames)
+      for (const name of cteTables) localNames.add(name)
+      return true
+    }
+    case 'AliasNode':
+      if (typeof queryNode.alias?.name === 'string') {
+        localNames.add(queryNode.alias.name)
+      }
+      break
+    default:
+      break
+  }
+  return Object.values(node).every((child) =>
+    collectQueryTables(child, tables, localNames),
+  )
 }
 
 /**
- * 内部復元関数
+ * 操作が読み取り操作かどうかを判定
  */
-function restoreTypesInternal(
-  obj: unknown,
-  modelName: string,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  PrismaDecimal: any,
-): unknown {
-  if (obj === null || obj === undefined) return obj
+export function isReadOperation(operation: string): boolean {
+  return (READ_OPERATIONS as readonly string[]).includes(operation)
+}
 
-  // 配列の場合は各要素を再帰処理
-  if (Array.isArray(obj)) {
-    return obj.map((item) => restoreTypesInternal(item, modelName, PrismaDecimal))
-  }
+/**
+ * キャッシュに保存する not-found エラーの表現
+ * エラーはそのままキャッシュできないため、メッセージのみを保持して読み取り時に再生成する
+ */
+interface NotFoundMarker {
+  $notFound: string
+}
 
-  // オブジェクトの場合
-  if (typeof obj === 'object') {
-    const dateTimeFields = getDateTimeFields(modelName)
-    const decimalFields = getDecimalFields(modelName)
-    const fields = getModelFields(modelName)
+/**
+ * `*OrThrow` 操作の not-found エラーかどうかを判定
+ */
+function isNotFoundError(error: unknown): error is ORMError {
+  return error instanceof ORMError && error.reason === ORMErrorReason.NOT_FOUND
+}
 
-    return Object.fromEntries(
-      Object.entries(obj as Record<string, unknown>).map(([key, value]) => {
-        // DateTime型フィールドでISO文字列の場合はDateに変換
-        if (
-          dateTimeFields.has(key) &&
-          typeof value === 'string' &&
-          ISO_DATE_REGEX.test(value)
-        ) {
-          return [key, new Date(value)]
-        }
+/**
+ * キャッシュから読み取った値が not-found エラーの表現かどうかを判定
+ */
+function isNotFoundMarker(value: unknown): value is NotFoundMarker {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as { $notFound?: unknown }).$notFound === 'string'
+  )
+}
 
-        // Decimal型フィールドで文字列または数値の場合はPrisma.Decimalに変換
-        if (
-          decimalFields.has(key) &&
-          value != null &&
-          (typeof value === 'string' || typeof value === 'number')
-        ) {
-          if (PrismaDecimal) {
-            return [key, new PrismaDecimal(value)]
-          }
-          // PrismaDecimalが利用不可な場合はそのまま返す
-          return [key, value]
-        }
+/**
+ * not-found エラーをキャッシュ可能な表現に変換
+ */
+function toNotFoundMarker(error: ORMError): NotFoundMarker {
+  return { $notFound: error.message }
+}
 
-        // リレーションフィールドの場合は再帰的に処理
-        const field = fields[key]
-        if (field?.relation && value != null) {
-          return [key, restoreTypesInternal(value, field.type, PrismaDecimal)]
-        }
+/**
+ * キャッシュされた not-found エラーを ORM のエラーとして再生成
+ */
+function fromNotFoundMarker(marker: NotFoundMarker, model: string): ORMError {
+  const error = new ORMError(ORMErrorReason.NOT_FOUND, marker.$notFound)
+  error.model = model
+  return error
+}
 
-        return [key, value]
-      }),
-    )
-  }
+/**
+ * null / not-found の結果（否定結果）かどうかを判定
+ */
+function isNegativeResult(value: unknown): boolean {
+  return value === null || isNotFoundMarker(value)
+}
 
-  return obj
+/**
+ * クエリ引数を正規化した文字列に変換
+ * - オブジェクトのキーをソートし、キーの順序によらず同じ文字列にする
+ * - undefined（および関数・シンボル）のプロパティは除外する
+ * - BigInt / DateTime / Decimal / Bytes は型情報付きで表現し、同じ値の文字列と区別する
+ */
+export function serializeQueryArgs(queryArgs: unknown): string {
+  return JSON.stringify(toCanonicalValue(queryArgs)) ?? ''
 }
 
 /**
- * 操作が読み取り操作かどうかを判定
+ * 値をJSONシリアライズ可能な正規形に変換
  */
-export function isReadOperation(operation: string): boolean {
-  return (READ_OPERATIONS as readonly string[]).includes(operation)
+function toCanonicalValue(value: unknown): unknown {
+  if (value === null) return null
+  if (typeof value === 'bigint') {
+    return { $type: 'BigInt', value: value.toString() }
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { $type: 'Float', value: String(value) }
+  }
+  if (typeof value !== 'object') {
+    // undefined・関数・シンボルは JSON.stringify で除外される
+    return typeof value === 'function' || typeof value === 'symbol'
+      ? undefined
+      : value
+  }
+  if (value instanceof Date) {
+    return {
+      $type: 'DateTime',
+      value: Number.isNaN(value.getTime())
+        ? 'Invalid Date'
+        : value.toISOString(),
+    }
+  }
+  if (isDecimal(value)) {
+    return { $type: 'Decimal', value: value.toString() }
+  }
+  if (value instanceof Uint8Array) {
+    return { $type: 'Bytes', value: Buffer.from(value).toString('base64') }
+  }
+  if (Array.isArray(value)) {
+    // 配列内の undefined は JSON.stringify で null になる
+    return value.map(toCanonicalValue)
+  }
+
+  const sorted: Record<string, unknown> = {}
+  for (const key of Object.keys(value).sort()) {
+    const canonical = toCanonicalValue((value as Record<string, unknown>)[key])
+    if (canonical !== undefined) {
+      sorted[key] = canonical
+    }
+  }
+  return sorted
 }
 
 /**
@@ -439,13 +2002,15 @@ export function isReadOperation(operation: string): boolean {
  * @param model モデル名
  * @param operation 操作名
  * @param queryArgs クエリ引数
- * @param userId ユーザーID（ポリシープラグイン使用時に設定）
+ * @param userId ユーザーID、または cacheScope が返したスコープのキー（ポリシープラグイン使用時に設定）
+ * @param mode キャッシュキーの生成方式
  */
 export function generateCacheKey(
   model: string,
   operation: string,
   queryArgs: unknown,
   userId?: string,
+  mode: CacheKeyMode = 'canonical',
 ): string[] {
   // ユーザーIDが設定されている場合はキャッシュキーに含める
   // これにより、ポリシープラグイン使用時にユーザーごとに異なるキャッシュが生成される
@@ -454,15 +2019,422 @@ export function generateCacheKey(
   if (!queryArgs || typeof queryArgs !== 'object') {
     return [baseKey]
   }
-  // 引数をJSON化してハッシュ代わりに使用（キーをソートして安定化）
-  const argsStr = JSON.stringify(queryArgs)
+  // 引数を正規化して文字列化（キーをソートして安定化）
+  const argsStr = serializeQueryArgs(queryArgs)
+  if (mode === 'hash') {
+    return [baseKey, createHash('sha256').update(argsStr).digest('hex')]
+  }
   return [baseKey, argsStr]
 }
 
+// ============================================================================
+// キャッシュストア
+// ============================================================================
+
+/**
+ * Next.js のキャッシュストアのオプション
+ */
+export interface NextjsCacheStoreOptions {
+  /**
+   * 読み取り結果をキャッシュするバックエンド
+   * @default 'unstable-cache'
+   */
+  backend?: CacheBackend
+
+  /**
+   * デバッグログの出力関数
+   */
+  log?: (message: string, ...args: unknown[]) => void
+}
+
+/**
+ * Next.js のキャッシュ（next/cache）を使用するキャッシュストア
+ * Next.js のキャッシュは関数単位でしか参照できないため、読み取りは wrap で行う
+ * （get は常にミス、set は何もしない）
+ */
+export function createNextjsCacheStore(
+  options: NextjsCacheStoreOptions = {},
+): CacheStore {
+  const { backend = 'unstable-cache', log = () => undefined } = options
+
+  return {
+    get: async () => undefined,
+
+    invalidateTags: async (tags) => {
+      for (const tag of tags) {
+        // biome-ignore lint/performance/noAwaitInLoops: キャッシュ無効化は順次実行が必要
+        await invalidateTag(tag, log)
+      }
+    },
+
+    set: async () => undefined,
+
+    wrap: (keyParts, execute, { life, tags, ttl }) =>
+      backend === 'cache-components'
+        ? runWithCacheComponents([...keyParts], tags, life, execute)
+        : runWithUnstableCache([...keyParts], tags, ttl, execute),
+  }
+}
+
+/**
+ * unstable_cache でクエリをラップして実行
+ */
+async function runWithUnstableCache(
+  cacheKey: string[],
+  tags: string[],
+  revalidateSeconds: number,
+  execute: () => Promise<unknown>,
+): Promise<unknown> {
+  const { unstable_cache } = await import('next/cache')
+
+  const cachedQuery = unstable_cache(execute, cacheKey, {
+    revalidate: revalidateSeconds,
+    tags,
+  })
+
+  return cachedQuery()
+}
+
+/**
+ * Cache Components のキャッシュミス時に実行するクエリ（読み取りの呼び出しごと）
+ */
+interface CacheComponentsQuery {
+  readonly execute: () => Promise<unknown>
+  /** 'use cache' の関数で実行されたかどうか（呼び出し元が完了した場合も実行済みとして扱う） */
+  claimed: boolean
+  /** クエリが投げたエラー（'use cache' の境界を越えるとエラーの型が失われるため保持する） */
+  thrown?: { error: unknown }
+}
+
+/**
+ * Cache Components のキャッシュミス時に実行するクエリ（キャッシュキーごと）
+ * 'use cache' の関数の引数はシリアライズされてキャッシュキーになり、関数は呼び出せない参照に置き換えられるため、
+ * クエリはキャッシュキーから引く。同じキーで同時に読み取った場合も呼び出しごとのクエリとエラーを取り違えないよう、
+ * 登録した順に未実行のクエリを割り当てる
+ *
+ * 制限:
+ * - 'use cache' の関数がどの呼び出しから実行されたかは判別できないため、同じキーの同時の読み取りでは
+ *   別の呼び出しが登録したクエリ（同じキーのため同じクエリ）を実行することがある
+ * - バックグラウンドの再検証は呼び出し元の完了後に実行されるため、キーごとに最後のクエリを残しておく。
+ *   最大件数を超えて破棄されたキーの再検証は失敗し、次の読み取りまで古いエントリが返される
+ */
+const cacheComponentsQueries = new Map<string, CacheComponentsQuery[]>()
+
+/**
+ * Cache Components（'use cache' + cacheTag/cacheLife）でクエリを実行
+ * 'use cache' の関数にはシリアライズ可能なキャッシュキー・tags・life だけを渡す
+ */
+async function runWithCacheComponents(
+  cacheKey: string[],
+  tags: string[],
+  life: CacheLifeProfile,
+  execute: () => Promise<unknown>,
+): Promise<unknown> {
+  const key = JSON.stringify(cacheKey)
+  const query: CacheComponentsQuery = { claimed: false, execute }
+  const queries = cacheComponentsQueries.get(key) ?? []
+  // 最近使ったキーを末尾に移動し、最大件数を超えた場合は最も古いキーから破棄する
+  cacheComponentsQueries.delete(key)
+  cacheComponentsQueries.set(key, [...queries, query])
+  while (cacheComponentsQueries.size > CACHE_COMPONENTS_MAX_QUERIES) {
+    const oldestKey = cacheComponentsQueries.keys().next().value
+    if (oldestKey === undefined) break
+    cacheComponentsQueries.delete(oldestKey)
+  }
+
+  try {
+    return await runCachedQuery(key, tags, life)
+  } catch (e) {
+    throw query.thrown ? query.thrown.error : e
+  } finally {
+    query.claimed = true
+    // バックグラウンドの再検証のため、キーごとに最後のクエリは残す
+    const current = cacheComponentsQueries.get(key)
+    if (current && current.length > 1) {
+      cacheComponentsQueries.set(
+        key,
+        current.filter((registered) => registered !== query),
+      )
+    }
+  }
+}
+
+/**
+ * キャッシュキーに対応するクエリを 'use cache' の関数内で実行
+ * 未実行のクエリを登録した順に実行し、なければ（バックグラウンドの再検証）最後に登録したクエリを実行する
+ */
+async function runCachedQuery(
+  key: string,
+  tags: string[],
+  life: CacheLifeProfile,
+): Promise<unknown> {
+  'use cache'
+  const { cacheLife, cacheTag } = await import('next/cache')
+
+  cacheTag(...tags)
+  // CacheLifeProfile は Next.js 組み込みの cacheLife プロファイル名と一致する
+  cacheLife(life)
+
+  const queries = cacheComponentsQueries.get(key) ?? []
+  const query =
+    queries.find((registered) => !registered.claimed) ?? queries.at(-1)
+  if (!query) {
+    throw new Error(`No query registered for cache key: ${key}`)
+  }
+  query.claimed = true
+  try {
+    return await query.execute()
+  } catch (e) {
+    query.thrown = { error: e }
+    throw e
+  }
+}
+
+/**
+ * タグを無効化するヘルパー関数
+ * Server Actions では updateTag（即時無効化）を優先、
+ * Route Handlers 等では revalidateTag（stale-while-revalidate）にフォールバック
+ */
+async function invalidateTag(
+  tag: string,
+  log: (message: string, ...args: unknown[]) => void,
+): Promise<void> {
+  try {
+    // まず updateTag を試みる（Server Actions 限定、即時無効化）
+    const { updateTag } = await import('next/cache')
+    updateTag(tag)
+    log(`Updated tag (immediate): ${tag}`)
+  } catch {
+    // updateTag が使えない場合は revalidateTag にフォールバック
+    try {
+      const { revalidateTag } = await import('next/cache')
+      revalidateTag(tag, 'max')
+      log(`Revalidated tag (stale-while-revalidate): ${tag}`)
+    } catch (e) {
+      log(`Failed to invalidate tag: ${tag}`, e)
+    }
+  }
+}
+
+/**
+ * インメモリキャッシュストアのオプション
+ */
+export interface MemoryCacheStoreOptions {
+  /**
+   * 保持する最大エントリ数
+   * 超えた場合は最も長く参照されていないエントリから破棄する
+   * @default 1000
+   */
+  maxEntries?: number
+
+  /**
+   * 現在時刻（ミリ秒）を返す関数
+   * @default Date.now
+   */
+  now?: () => number
+}
+
+interface MemoryCacheEntry {
+  readonly value: unknown
+  readonly tags: readonly string[]
+  readonly expiresAt: number
+}
+
+/**
+ * インメモリのLRUキャッシュストア
+ * Next.js ランタイムのないバックグラウンドジョブ・スクリプト・テストで、
+ * 同じタグ付け・無効化ロジックを使用するためのストア
+ */
+export function createMemoryCacheStore(
+  options: MemoryCacheStoreOptions = {},
+): CacheStore {
+  const { maxEntries = DEFAULT_MEMORY_CACHE_MAX_ENTRIES, now = Date.now } =
+    options
+
+  // Map の挿入順をLRUの順序として使用（先頭が最も古い）
+  const entries = new Map<string, MemoryCacheEntry>()
+  // タグ → キャッシュキーの索引
+  const tagIndex = new Map<string, Set<string>>()
+
+  const remove = (key: string): void => {
+    const entry = entries.get(key)
+    if (!entry) return
+    entries.delete(key)
+    for (const tag of entry.tags) {
+      const keys = tagIndex.get(tag)
+      keys?.delete(key)
+      if (keys?.size === 0) {
+        tagIndex.delete(tag)
+      }
+    }
+  }
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key)
+      if (!entry) return
+      if (entry.expiresAt <= now()) {
+        remove(key)
+        return
+      }
+      // 参照されたエントリを末尾に移動
+      entries.delete(key)
+      entries.set(key, entry)
+      return { value: entry.value }
+    },
+
+    invalidateTags: async (tags) => {
+      for (const tag of tags) {
+        for (const key of [...(tagIndex.get(tag) ?? [])]) {
+          remove(key)
+        }
+      }
+    },
+
+    set: async (key, value, { tags, ttl }) => {
+      remove(key)
+      entries.set(key, {
+        expiresAt: now() + ttl * MILLISECONDS_PER_SECOND,
+        tags: [...tags],
+        value,
+      })
+      for (const tag of tags) {
+        const keys = tagIndex.get(tag) ?? new Set<string>()
+        keys.add(key)
+        tagIndex.set(tag, keys)
+      }
+
+      // 上限を超えた場合は最も長く参照されていないエントリを破棄
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value
+        if (oldestKey === undefined) break
+        remove(oldestKey)
+      }
+    },
+  }
+}
+
+/**
+ * キャッシュストアを通してクエリを実行
+ * ストアが wrap を実装していればそれを使用し、なければ get / set で読み書きする
+ */
+async function readThroughStore(
+  store: CacheStore,
+  keyParts: readonly string[],
+  execute: () => Promise<unknown>,
+  options: CacheStoreSetOptions,
+): Promise<unknown> {
+  if (store.wrap) {
+    return store.wrap(keyParts, execute, options)
+  }
+
+  const key = JSON.stringify(keyParts)
+  const hit = await store.get(key)
+  if (hit) {
+    return hit.value
+  }
+
+  const value = await execute()
+  await store.set(key, value, options)
+  return value
+}
+
+/**
+ * ストアに保存せずに呼び出し元へ返す結果
+ * readThroughStore の execute 内で throw すると、キャッシュされずに呼び出し元の catch で受け取れる
+ */
+class UncachedResult {
+  constructor(readonly value: unknown) {}
+}
+
+/**
+ * クエリ自体の失敗
+ * キャッシュストアの失敗と区別し、クエリを再実行せずにエラーを伝播させるために使用する
+ */
+class QueryFailure {
+  constructor(readonly error: unknown) {}
+}
+
+// ============================================================================
+// リクエストスコープ
+// ============================================================================
+
+const requestScopeStorage = new AsyncLocalStorage<CacheRequestScope>()
+
+/**
+ * 空のリクエストスコープを作成
+ */
+export function createCacheRequestScope(): CacheRequestScope {
+  return { mutatedTags: new Set() }
+}
+
+/**
+ * リクエストスコープ内でコールバックを実行
+ * スコープ内で変更したデータは、同じスコープ内の以降の読み取りでデータベースから直接取得される
+ * 既にスコープ内にいる場合は外側のスコープを引き継ぐ
+ *
+ * @example
+ * ```typescript
+ * export async function updatePost(id: string, title: string) {
+ *   'use server';
+ *   return runWithCacheRequestScope(async () => {
+ *     await db.post.update({ where: { id }, data: { title } });
+ *     return db.post.findUnique({ where: { id } }); // 更新後の値を返す
+ *   });
+ * }
+ * ```
+ */
+export function runWithCacheRequestScope<T>(callback: () => T): T {
+  const scope = requestScopeStorage.getStore() ?? createCacheRequestScope()
+  return requestScopeStorage.run(scope, callback)
+}
+
+/**
+ * runWithCacheRequestScope() で開始した現在のスコープを取得
+ */
+function getCurrentRequestScope(): CacheRequestScope | undefined {
+  return requestScopeStorage.getStore()
+}
+
 // ============================================================================
 // プラグイン本体
 // ============================================================================
 
+/**
+ * キャッシュする読み取り（ORM の操作と $qb の SELECT で共通）
+ */
+interface CachedRead {
+  /** cacheScope とキャッシュキーに使うモデル名（$qb の場合は参照しているモデル名をカンマで連結したもの） */
+  readonly model: string
+  /** 操作名（$qb の場合は '$qb'） */
+  readonly operation: string
+  /** キャッシュキーに含める引数 */
+  readonly keyArgs: unknown
+  /** クライアント単位とクエリ単位をマージしたキャッシュ設定 */
+  readonly cacheOptions: CacheClientOptions
+  /** 読み取りを実行するクライアント */
+  readonly client: { $auth?: unknown }
+  /** トランザクション内で実行されているかどうか */
+  readonly inTransaction: boolean
+  /** 読み取るモデル（アクセスポリシーの判定に使用する） */
+  readonly models: readonly string[]
+  /** 読み取るモデルのタグ（キャッシュ設定のタグとスコープのタグは含めない） */
+  readonly tags: readonly string[]
+  /** モデルの有効期間（キャッシュ設定の life が優先される） */
+  readonly life: CacheLifeProfile
+  /** ログに含める情報 */
+  readonly details?: Record<string, unknown>
+  /** キャッシュせずにクエリを実行 */
+  readonly proceed: () => Promise<unknown>
+  /**
+   * クエリを実行してキャッシュに保存する値を返す
+   * UncachedResult を投げた場合は保存せずにその値を返す
+   */
+  readonly execute: () => Promise<unknown>
+  /** キャッシュに保存した値を呼び出し元に返す値に復元 */
+  readonly restore: (value: unknown) => unknown
+}
+
 /**
  * Next.js Cache Plugin for ZenStack v3
  *
@@ -501,7 +2473,22 @@ export function createNextjsCachePlugin(
     excludeModels = [],
     debug = false,
     customTagGenerator,
+    invalidationTiming = 'both',
+    cacheKeyMode = 'canonical',
+    cacheBackend = 'unstable-cache',
+    clientCacheOptions = {},
+    cacheInTransaction = false,
+    getRequestScope = getCurrentRequestScope,
+    negativeCache = {},
+    maxRelationDepth = DEFAULT_MAX_RELATION_DEPTH,
+    rawWriteModels,
+    rawWriteFallback = 'all',
+    cacheQueryBuilder = false,
+    cacheScope = getAuthIdScope,
+    policySafety = 'off',
   } = options
+  const { enabled: negativeCacheEnabled = true, life: negativeCacheLife } =
+    negativeCache
 
   const log = (message: string, ...args: unknown[]) => {
     if (debug) {
@@ -509,6 +2496,27 @@ export function createNextjsCachePlugin(
     }
   }
 
+  const store =
+    options.cacheStore ?? createNextjsCacheStore({ backend: cacheBackend, log })
+
+  /**
+   * タグを重複なく無効化
+   * 同一リクエスト内の以降の読み取りのため、リクエストスコープにも記録する
+   */
+  const invalidateTags = async (tags: string[]): Promise<void> => {
+    const uniqueTags = [...new Set(tags)]
+    if (uniqueTags.length === 0) return
+    const scope = getRequestScope()
+    for (const tag of uniqueTags) {
+      scope?.mutatedTags.add(tag)
+    }
+    try {
+      await store.invalidateTags(uniqueTags)
+    } catch (e) {
+      log('Failed to invalidate tags', uniqueTags, e)
+    }
+  }
+
   /**
    * モデルがキャッシュ除外対象かどうかを判定
    * - オプションの excludeModels に含まれる場合
@@ -528,39 +2536,631 @@ export function createNextjsCachePlugin(
 
   /**
    * モデルのキャッシュタグを取得
-   * スキーマの @@cache.tags() が優先、なければデフォルト生成
+   * 読み取り時のタグ付けとミューテーション時の無効化の両方で使用する
+   */
+  const getTagsForModel = (model: string, id?: string): string[] =>
+    resolveCacheTags(model, id, customTagGenerator)
+
+  /**
+   * モデルのキャッシュライフタイムを取得
+   * スキーマの @@cache.life() が優先、なければデフォルト値
+   */
+  const getLifeForModel = (model: string): CacheLifeProfile => {
+    const customLife = getCustomLife(model)
+    return customLife ?? defaultCacheLife
+  }
+
+  /**
+   * トランザクション内のミューテーションで収集した無効化タグ
+   * queryId ごとに保持し、コミット後の afterEntityMutation で取り出す
+   * ロールバック時は取り出されないまま queryId ごと破棄される
+   */
+  const deferredTags = new WeakMap<object, Set<string>>()
+
+  const deferTags = (queryId: unknown, tags: string[]): void => {
+    if (!queryId || typeof queryId !== 'object') return
+    const pending = deferredTags.get(queryId) ?? new Set<string>()
+    for (const tag of tags) {
+      pending.add(tag)
+    }
+    deferredTags.set(queryId, pending)
+  }
+
+  const takeDeferredTags = (queryId: unknown): string[] => {
+    if (!queryId || typeof queryId !== 'object') return []
+    const pending = deferredTags.get(queryId)
+    deferredTags.delete(queryId)
+    return pending ? [...pending] : []
+  }
+
+  /**
+   * 参照アクション（onDelete / onUpdate）によってデータベース側で変更されるモデルのタグを取得
+   * 連鎖的に変更された行はフックに渡されないため、依存モデルのタグ（リスト・個別取得の両方に付与される）を無効化する
+   * 更新の場合は、変更前後のエンティティで値が変わったフィールドを参照しているリレーションのみ対象にする
+   */
+  const getCascadeTags = (
+    model: string,
+    action: 'delete' | 'update',
+    beforeEntities?: Record<string, unknown>[],
+    afterEntities?: Record<string, unknown>[],
+  ): string[] => {
+    const changedFields =
+      action === 'update' && beforeEntities && afterEntities
+        ? getChangedFields(beforeEntities, afterEntities)
+        : undefined
+    if (changedFields?.length === 0) return []
+
+    const affectedModels = getCascadeAffectedModels(
+      model,
+      action,
+      changedFields,
+    ).filter((affected) => !isExcludedModel(affected))
+    if (affectedModels.length > 0) {
+      log(`Cascading invalidation: ${model}`, { affectedModels })
+    }
+    return affectedModels.flatMap((affected) => getTagsForModel(affected))
+  }
+
+  /**
+   * 暗黙的な多対多リレーションの中間テーブルの変更で無効化するタグを取得
+   * 中間テーブル自体は読み取られないため、接続・切断された両側のエンティティのタグを無効化する
+   */
+  const getJoinTableMutationTags = (
+    joinTable: ManyToManyJoinTable,
+    entities: Record<string, unknown>[] | undefined,
+  ): string[] => {
+    const tags: string[] = []
+    const columns = [
+      ['A', joinTable.models[0]],
+      ['B', joinTable.models[1]],
+    ] as const
+    for (const [column, relatedModel] of columns) {
+      if (isExcludedModel(relatedModel)) continue
+      tags.push(...getTagsForModel(relatedModel))
+
+      const [idField] = getIdFields(relatedModel)
+      for (const entity of entities ?? []) {
+        const ids = { [idField]: entity[column] }
+        for (const key of getEntityKeys(relatedModel, ids)) {
+          tags.push(...getTagsForModel(relatedModel, key))
+        }
+      }
+    }
+    return tags
+  }
+
+  /**
+   * ミューテーション時に無効化するタグを取得
+   * 読み取り時と同じ getTagsForModel で解決し、変更されるモデルのリスト・個別エンティティ、
+   * 外部キーで参照しているエンティティとリレーション先モデルのタグを返す
+   * ネストした書き込みは ORM がモデルごとにフックを呼び出すため、ここでは1モデル分を扱う
    */
-  const getTagsForModel = (model: string, id?: string): string[] => {
-    // カスタムタグ生成関数が指定されていればそれを使用
-    if (customTagGenerator) {
-      return customTagGenerator(model, id)
+  const getMutationTags = (
+    model: string,
+    entities: Record<string, unknown>[] | undefined,
+  ): string[] => {
+    // 暗黙的な多対多リレーションの中間テーブルは両側のモデルのタグに置き換える
+    const joinTable = getManyToManyJoinTable(model)
+    if (joinTable) {
+      return getJoinTableMutationTags(joinTable, entities)
+    }
+
+    // リスト全体のキャッシュを無効化
+    const tags = getTagsForModel(model)
+    // 委譲の継承階層のモデルも同じ行を共有するため無効化する
+    const hierarchy = getDelegateHierarchy(model).filter(
+      (hierarchyModel) => !isExcludedModel(hierarchyModel),
+    )
+    for (const hierarchyModel of hierarchy) {
+      tags.push(...getTagsForModel(hierarchyModel))
+    }
+    // @@cache.dependsOn() でこのモデルに依存しているモデルも無効化する
+    for (const dependent of getDependentModels(model)) {
+      if (!isExcludedModel(dependent)) {
+        tags.push(...getTagsForModel(dependent))
+      }
+    }
+
+    // 個別エンティティのキャッシュも無効化（主キー・ユニークキーごと）
+    for (const entity of entities ?? []) {
+      for (const key of getEntityKeys(model, entity)) {
+        tags.push(...getTagsForModel(model, key))
+      }
+      for (const hierarchyModel of hierarchy) {
+        for (const key of getEntityKeys(hierarchyModel, entity)) {
+          tags.push(...getTagsForModel(hierarchyModel, key))
+        }
+      }
+      // 外部キーで参照しているエンティティのキャッシュも無効化
+      // 変更前後のエンティティを渡すため、付け替え元と付け替え先の両方が対象になる
+      for (const referenced of getReferencedEntityKeys(model, entity)) {
+        if (!isExcludedModel(referenced.model)) {
+          tags.push(...getTagsForModel(referenced.model, referenced.key))
+        }
+      }
     }
 
-    // スキーマの @@cache.tags() をチェック
-    const customTags = getCustomTags(model)
-    if (customTags && customTags.length > 0) {
-      // カスタムタグにIDを追加
-      if (id) {
-        return [...customTags, `${model.toLowerCase()}:${id}`]
+    // リレーション先モデルのキャッシュも無効化
+    const relatedModels = getRelatedModels(model)
+    for (const relatedModel of relatedModels) {
+      if (!isExcludedModel(relatedModel)) {
+        tags.push(...getTagsForModel(relatedModel))
       }
-      return customTags
     }
 
-    // デフォルトのタグ生成
-    return generateCacheTags(model, id)
+    return tags
   }
 
   /**
-   * モデルのキャッシュライフタイムを取得
-   * スキーマの @@cache.life() が優先、なければデフォルト値
+   * raw SQL の書き込みで無効化するタグを取得
+   * 書き込み先のテーブルをモデルに対応付け、ミューテーション時と同じタグと参照アクションによる連鎖のタグを返す
+   * 書き込みを含む SQL で rawWriteModels が指定されていれば、書き込み先の代わりにそのモデルを対象にし、
+   * 書き込み先のモデルを特定できなければ rawWriteFallback に従う
    */
-  const getLifeForModel = (model: string): CacheLifeProfile => {
-    const customLife = getCustomLife(model)
-    return customLife ?? defaultCacheLife
+  const getRawWriteTags = (sql: string): string[] => {
+    const writeTargets = extractRawWriteTargets(sql)
+    if (writeTargets?.length === 0) return []
+
+    if (rawWriteModels) {
+      return rawWriteModels.flatMap((model) =>
+        getMutationTags(model, undefined),
+      )
+    }
+
+    const targets = writeTargets?.map((target) => ({
+      ...target,
+      model: getModelForTable(target.table),
+    }))
+    if (!targets || targets.some((target) => !target.model)) {
+      log(`Unable to resolve raw SQL write targets: ${rawWriteFallback}`, {
+        sql,
+      })
+      if (rawWriteFallback === 'none') return []
+      return Object.keys(schema.models)
+        .filter((model) => !isExcludedModel(model))
+        .flatMap((model) => getTagsForModel(model))
+    }
+
+    const tags: string[] = []
+    for (const { model, action } of targets) {
+      if (!model) continue
+      tags.push(...getMutationTags(model, undefined))
+      if (action !== 'create') {
+        tags.push(...getCascadeTags(model, action))
+      }
+    }
+    return tags
+  }
+
+  /**
+   * 読み取りのキャッシュキーに含めるスコープを解決
+   * scope: 'public' の場合と cacheScope が 'public' を返した場合は全ユーザーで共有する
+   * @returns スコープのキー（共有する場合は undefined）
+   */
+  const resolveCacheScope = (
+    auth: unknown,
+    model: string,
+    operation: string,
+    scopeMode: CacheScopeMode | undefined,
+  ): string | undefined => {
+    if (scopeMode === 'public') return
+    const scope = cacheScope(
+      auth as Record<string, unknown> | undefined,
+      model,
+      operation,
+    )
+    return scope === 'public' ? undefined : scope
+  }
+
+  /**
+   * アクセスポリシーで保護されたモデルの読み取りをキャッシュしてよいか判定
+   * $auth が設定されているのに cacheScope が 'public' を返した（デフォルトでは id がない）場合は、
+   * policySafety に従ってキャッシュしないかエラーを投げる
+   * scope: 'public' のクライアントだけは意図したものとして扱う
+   * @returns キャッシュしてよい場合は true
+   * @throws policySafety が 'throw' の場合
+   */
+  const checkPolicyScope = (
+    models: readonly string[],
+    auth: unknown,
+    scope: string | undefined,
+    scopeMode: CacheScopeMode | undefined,
+    label: string,
+  ): boolean => {
+    if (
+      policySafety === 'off' ||
+      scope !== undefined ||
+      auth == null ||
+      scopeMode === 'public'
+    ) {
+      return true
+    }
+    const protectedModels = models.filter(hasPolicyAttributes)
+    if (protectedModels.length === 0) return true
+
+    const message = `Refusing to cache a policy-protected read without a cache scope: ${label}`
+    if (policySafety === 'throw') {
+      throw new ORMError(ORMErrorReason.CONFIG_ERROR, message)
+    }
+    log(message, { protectedModels })
+    return false
+  }
+
+  /** プラグインの順序を確認済みのクライアントのオプション */
+  const checkedPluginOrders = new WeakSet<object>()
+
+  /**
+   * ポリシープラグインより後に $use されていないか確認して警告
+   * 後から $use したプラグインのフックが先に実行されるため、ポリシープラグインより後にあると
+   * $qb の読み取りではポリシーによる絞り込みの前にキャッシュを返してしまう
+   */
+  const warnPluginOrder = (client: unknown): void => {
+    if (policySafety === 'off') return
+    const clientOptions = (
+      client as { $options?: { plugins?: readonly { id: string }[] } }
+    ).$options
+    if (!clientOptions || checkedPluginOrders.has(clientOptions)) return
+    checkedPluginOrders.add(clientOptions)
+
+    const pluginIds = (clientOptions.plugins ?? []).map((plugin) => plugin.id)
+    const policyIndex = pluginIds.indexOf(POLICY_PLUGIN_ID)
+    if (policyIndex !== -1 && pluginIds.indexOf(PLUGIN_ID) > policyIndex) {
+      console.warn(
+        '[NextjsCache] The cache plugin is installed after the policy plugin, so its hooks run before the policy is applied. Install it with $use() before the policy plugin.',
+      )
+    }
+  }
+
+  /**
+   * 実行中の ORM の操作（onQuery）
+   * ORM の操作が発行する Kysely クエリは onQuery と onEntityMutation で扱うため、onKyselyQuery では対象外にする
+   * inTransaction は $transaction() のクライアントで実行されているかどうか
+   * （フックを持つプラグインがあると ORM はすべてのミューテーションをトランザクション内で実行するため、
+   * ミューテーションフックに渡されるクライアントでは判定できない）
+   */
+  const ormOperationStorage = new AsyncLocalStorage<{
+    inTransaction: boolean
+  }>()
+
+  /**
+   * 実行中の $transaction() で保留している raw SQL の書き込みの無効化タグ
+   * raw SQL は onEntityMutation を経由せず、onKyselyQuery のクライアントからもトランザクション内か判定できないため、
+   * $transaction() を置き換えて実行中であることを記録する
+   */
+  const transactionStorage = new AsyncLocalStorage<Set<string>>()
+
+  /**
+   * $transaction() を置き換えるクライアントのメンバー
+   * 保留したタグは最も外側のトランザクションのコミット後に無効化し、ロールバック時は破棄する
+   * 公開するメンバーの型は変えないため、NextjsCacheClientMembers には含めない
+   */
+  const transactionMembers = {
+    async $transaction(this: object, ...args: unknown[]): Promise<unknown> {
+      const { $transaction } = Object.getPrototypeOf(this) as {
+        $transaction: (...args: unknown[]) => Promise<unknown>
+      }
+      if (transactionStorage.getStore()) {
+        return $transaction.apply(this, args)
+      }
+
+      const pendingTags = new Set<string>()
+      const result = await transactionStorage.run(pendingTags, () =>
+        $transaction.apply(this, args),
+      )
+      await invalidateTags([...pendingTags])
+      return result
+    },
+  }
+
+  /**
+   * 読み取りをキャッシュして実行（ORM の操作と $qb の SELECT で共通）
+   * キャッシュ設定・トランザクション・スコープ・アクセスポリシー・同一リクエスト内の変更を判定し、
+   * キャッシュする場合はタグとキャッシュキーを生成してストアから読み取る
+   */
+  const readCached = async (read: CachedRead): Promise<unknown> => {
+    const { model, operation, cacheOptions, client } = read
+    const label = `${model}.${operation}`
+
+    // クエリ・クライアント単位でキャッシュをスキップ
+    if (cacheOptions.skip) {
+      log(`Skipping cache by cache option: ${label}`)
+      return read.proceed()
+    }
+
+    // トランザクション内の読み取りはコミット前のデータを含むためキャッシュしない
+    if (!cacheInTransaction && read.inTransaction) {
+      log(`Skipping cache inside transaction: ${label}`)
+      return read.proceed()
+    }
+
+    // ポリシープラグイン使用時のユーザー情報からスコープを解決
+    // デフォルトでは $auth が設定されている場合、キャッシュキーにユーザーIDを含める
+    // scope: 'public' の場合は全ユーザーでキャッシュを共有する
+    const userId = resolveCacheScope(
+      client.$auth,
+      model,
+      operation,
+      cacheOptions.scope,
+    )
+
+    // アクセスポリシーで保護されたモデルはスコープなしでキャッシュしない
+    warnPluginOrder(client)
+    if (
+      !checkPolicyScope(
+        read.models,
+        client.$auth,
+        userId,
+        cacheOptions.scope,
+        label,
+      )
+    ) {
+      return read.proceed()
+    }
+
+    const tagSet = new Set([...read.tags, ...(cacheOptions.tags ?? [])])
+    // スコープごとに無効化できるよう、スコープのタグを付与する
+    if (userId) {
+      tagSet.add(generateScopeTag(userId))
+    }
+    const tags = [...tagSet]
+
+    // 同一リクエスト内で変更したデータはキャッシュを迂回して最新の値を返す
+    const mutatedTags = getRequestScope()?.mutatedTags
+    if (mutatedTags && tags.some((tag) => mutatedTags.has(tag))) {
+      log(`Skipping cache for data mutated in this request: ${label}`, {
+        tags,
+      })
+      return read.proceed()
+    }
+
+    // クエリ・クライアント単位の有効期間が指定されていれば優先
+    const life = cacheOptions.life ?? read.life
+    const revalidateSeconds = getCacheRevalidateSeconds(life)
+
+    // キャッシュキーを生成（ユーザーIDを含める）
+    const cacheKey = generateCacheKey(
+      model,
+      operation,
+      read.keyArgs,
+      userId,
+      cacheKeyMode,
+    )
+
+    log(`Read operation: ${label}`, {
+      cacheKey,
+      life,
+      revalidateSeconds,
+      tags,
+      userId,
+      ...read.details,
+    })
+
+    // キャッシュミス時に実行するクエリ
+    const execute = async () => {
+      log(`Cache MISS: ${label}`, { cacheKey, tags })
+      try {
+        return await read.execute()
+      } catch (e) {
+        if (e instanceof UncachedResult) throw e
+        // キャッシュストアの失敗と区別する
+        throw new QueryFailure(e)
+      }
+    }
+
+    let cachedResult: unknown
+    try {
+      cachedResult = await readWithNegativeCache(cacheKey, execute, {
+        life,
+        tags,
+        ttl: revalidateSeconds,
+      })
+    } catch (e) {
+      if (e instanceof QueryFailure) {
+        // クエリ自体の失敗は再実行せずに伝播させる
+        throw e.error
+      }
+      if (!(e instanceof UncachedResult)) {
+        // キャッシュストアが利用できない環境（テスト等）ではフォールバック
+        // 保存する値と同じ形に変換してから復元する（一貫性のため）
+        log('Cache store not available, falling back to direct query', e)
+        try {
+          cachedResult = await read.execute()
+        } catch (error) {
+          if (!(error instanceof UncachedResult)) throw error
+          cachedResult = error.value
+        }
+      } else {
+        cachedResult = e.value
+      }
+    }
+
+    return read.restore(cachedResult)
+  }
+
+  /**
+   * クエリビルダー（$qb）の SELECT をキャッシュして実行
+   * 参照しているテーブルのモデルのタグを付与し、有効期間はモデルの中で最も短いものを使う
+   * 参照先を特定できないクエリと除外モデルを参照するクエリはキャッシュしない
+   */
+  const readQueryBuilder = async ({
+    query,
+    proceed,
+    client,
+  }: OnKyselyQueryArgs<SchemaType>) => {
+    const tables = extractQueryTables(query)
+    // onKyselyQuery には @@map による名前の変換前のクエリが渡されるため、テーブル名はモデル名のまま
+    // 暗黙的な多対多リレーションの中間テーブルは両側のモデルに置き換える
+    const modelNames = Object.keys(schema.models)
+    const models = tables?.flatMap((table) => {
+      if (modelNames.includes(table)) return [table]
+      return getManyToManyJoinTable(table)?.models ?? [undefined]
+    })
+    if (
+      !models?.length ||
+      models.some((model) => !model || isExcludedModel(model))
+    ) {
+      log('Skipping cache for query builder', { tables })
+      return proceed(query)
+    }
+    const queryModels = [...new Set(models as string[])]
+
+    const tagSet = new Set<string>()
+    for (const model of queryModels) {
+      for (const tagModel of [model, ...getDelegateHierarchy(model)]) {
+        if (isExcludedModel(tagModel)) continue
+        for (const tag of getTagsForModel(tagModel)) {
+          tagSet.add(tag)
+        }
+      }
+    }
+
+    // モデルの中で最も短い有効期間
+    const life = queryModels
+      .map(getLifeForModel)
+      .reduce((shortest, current) =>
+        CACHE_LIFE_PROFILES.indexOf(current) <
+        CACHE_LIFE_PROFILES.indexOf(shortest)
+          ? current
+          : shortest,
+      )
+
+    return readCached({
+      cacheOptions: clientCacheOptions,
+      client,
+      // ドライバーが返した行を型情報付きで保存し、そのままの値に戻す
+      execute: async () => toCacheValue((await proceed(query)).rows),
+      inTransaction: !!transactionStorage.getStore(),
+      keyArgs: query,
+      life,
+      model: queryModels.join(','),
+      models: queryModels,
+      operation: '$qb',
+      proceed: () => proceed(query),
+      restore: (rows) => ({
+        rows: fromCacheValue(rows) as Record<string, unknown>[],
+      }),
+      tags: [...tagSet],
+    }) as ReturnType<typeof proceed>
+  }
+
+  /**
+   * ネガティブキャッシュの有効期間を考慮してストアから読み取る
+   * 否定結果の有効期間が指定されている場合は、否定結果専用のエントリを先に参照し、
+   * 否定結果はそのエントリに、それ以外の結果は通常のエントリに保存する
+   */
+  const readWithNegativeCache = async (
+    keyParts: readonly string[],
+    execute: () => Promise<unknown>,
+    options: CacheStoreSetOptions,
+  ): Promise<unknown> => {
+    if (!negativeCacheEnabled || !negativeCacheLife) {
+      return readThroughStore(store, keyParts, execute, options)
+    }
+
+    // 通常のエントリには否定結果を保存しない
+    const readPositive = () =>
+      readThroughStore(
+        store,
+        keyParts,
+        async () => {
+          const value = await execute()
+          if (isNegativeResult(value)) throw new UncachedResult(value)
+          return value
+        },
+        options,
+      )
+
+    // 否定結果専用のエントリには否定結果のみを保存する
+    return readThroughStore(
+      store,
+      [...keyParts, 'negative'],
+      async () => {
+        let value: unknown
+        try {
+          value = await readPositive()
+        } catch (e) {
+          if (e instanceof UncachedResult) return e.value
+          throw e
+        }
+        throw new UncachedResult(value)
+      },
+      {
+        life: negativeCacheLife,
+        tags: options.tags,
+        ttl: getCacheRevalidateSeconds(negativeCacheLife),
+      },
+    )
   }
 
-  return definePlugin<SchemaType>({
-    id: 'nextjs-cache',
+  /**
+   * オプションを上書きしたプラグインに差し替えたクライアントを生成
+   * プラグインの順序を保つため $use ではなく $setOptions で差し替える
+   */
+  const deriveClient = <Client>(
+    client: Client,
+    overrides: NextjsCachePluginOptions,
+  ): Client => {
+    const host = client as unknown as {
+      $options: { plugins?: readonly { id: string }[] }
+      $setOptions: (options: unknown) => Client
+    }
+    const plugin = createNextjsCachePlugin({ ...options, ...overrides })
+    return host.$setOptions({
+      ...host.$options,
+      plugins: (host.$options.plugins ?? []).map((p) =>
+        p.id === PLUGIN_ID ? plugin : p,
+      ),
+    })
+  }
+
+  /**
+   * クライアント単位の設定とクエリ単位の設定をマージ
+   */
+  const resolveCacheOptions = (
+    queryOptions: CacheQueryOptions | undefined,
+  ): CacheClientOptions => ({
+    ...clientCacheOptions,
+    ...queryOptions,
+    tags: [...(clientCacheOptions.tags ?? []), ...(queryOptions?.tags ?? [])],
+  })
+
+  return definePlugin<
+    SchemaType,
+    NextjsCacheQueryArgs,
+    NextjsCacheClientMembers
+  >({
+    id: PLUGIN_ID,
+
+    /**
+     * キャッシュ設定を変更したクライアントを派生するメンバー
+     */
+    client: {
+      ...transactionMembers,
+      $noCache<Client>(this: Client): Client {
+        return deriveClient(this, {
+          clientCacheOptions: { ...clientCacheOptions, skip: true },
+        })
+      },
+      $withCache<Client>(this: Client, overrides: CacheClientOptions): Client {
+        return deriveClient(this, {
+          clientCacheOptions: { ...clientCacheOptions, ...overrides },
+        })
+      },
+      $withRawWriteModels<Client>(this: Client, models: string[]): Client {
+        return deriveClient(this, { rawWriteModels: models })
+      },
+      async $revalidateCacheScope(scope: string): Promise<void> {
+        log(`Revalidating cache scope: ${scope}`)
+        await invalidateTags([generateScopeTag(scope)])
+      },
+    },
+
+    /**
+     * 読み取り操作に `$cache` クエリ引数を追加
+     */
+    queryArgs: {
+      $read: z.object({ $cache: cacheQueryOptionsSchema.optional() }),
+    },
 
     /**
      * Entity Mutation Hooks: ミューテーション前後のキャッシュ無効化
@@ -569,33 +3169,164 @@ export function createNextjsCachePlugin(
       /**
        * ミューテーション前にキャッシュを無効化
        * read-back時にキャッシュがあるとデータ取得できなくなるため、事前に無効化しておく必要がある
+       * トランザクション内ではコミット前に無効化すると古いデータが再キャッシュされるため、
+       * タグを収集するだけにしてコミット後の afterEntityMutation に委ねる
        */
       beforeEntityMutation: async (args) => {
-        const { model, loadBeforeMutationEntities } = args
+        const { model, action, loadBeforeMutationEntities, queryId } = args
 
         log(`Before mutation: ${model}`)
 
-        // 変更されるモデルのキャッシュを先に無効化（read-back用）
-        await invalidateCacheForModel(model, loadBeforeMutationEntities, log)
+        // 変更前のエンティティを読み込む（delete時は変更後のエンティティを取得できないため）
+        let entities: Record<string, unknown>[] | undefined
+        try {
+          entities = await loadBeforeMutationEntities()
+        } catch (e) {
+          log(`Failed to load entities before mutation: ${model}`, e)
+        }
+        const tags = getMutationTags(model, entities)
+        // 削除によってデータベース側で連鎖的に変更されるモデル
+        if (action === 'delete') {
+          tags.push(...getCascadeTags(model, action))
+        }
+
+        // ORM の操作の外（$qb の書き込み）では $transaction() の実行中かどうかで判定する
+        const operation = ormOperationStorage.getStore()
+        const inTransaction = operation
+          ? operation.inTransaction
+          : !!transactionStorage.getStore()
+        if (inTransaction) {
+          log(`Deferring invalidation until commit: ${model}`, { tags })
+          deferTags(queryId, tags)
+          return
+        }
 
-        // リレーション先モデルのキャッシュも無効化
-        const relatedModels = getRelatedModels(model)
-        for (const relatedModel of relatedModels) {
-          if (!isExcludedModel(relatedModel)) {
-            log(`Invalidating related model (before): ${relatedModel}`)
-            // biome-ignore lint/performance/noAwaitInLoops: キャッシュ無効化は順次実行が必要
-            await invalidateRelatedModelCache(relatedModel, log)
+        if (invalidationTiming !== 'after') {
+          await invalidateTags(tags)
+        }
+      },
+
+      /**
+       * ミューテーションのコミット後にキャッシュを無効化
+       * 無効化とコミットの間に実行された読み取りが古いデータを再キャッシュするのを防ぐ
+       * トランザクション内のミューテーションでは、ORMが最も外側のトランザクションの
+       * コミット後に呼び出す（ロールバック時は呼び出されないため、保留中のタグも破棄される）
+       */
+      afterEntityMutation: async (args) => {
+        const {
+          model,
+          action,
+          loadAfterMutationEntities,
+          beforeMutationEntities,
+          queryId,
+        } = args
+
+        log(`After mutation: ${model}`)
+
+        // トランザクション内で保留していたタグ
+        const tags = new Set(takeDeferredTags(queryId))
+
+        // 変更後のエンティティは、変更後のタグか更新による連鎖の判定に使う場合のみ読み込む
+        let afterEntities: Record<string, unknown>[] | undefined
+        if (invalidationTiming !== 'before' || action === 'update') {
+          try {
+            afterEntities = await loadAfterMutationEntities()
+          } catch (e) {
+            log(`Failed to load entities after mutation: ${model}`, e)
+          }
+        }
+
+        if (invalidationTiming !== 'before') {
+          const entities = [
+            ...(beforeMutationEntities ?? []),
+            ...(afterEntities ?? []),
+          ]
+          for (const tag of getMutationTags(model, entities)) {
+            tags.add(tag)
+          }
+        }
+
+        // 更新による連鎖的な変更は、更新内容が確定するここで判定する
+        if (
+          action === 'update' ||
+          (action === 'delete' && invalidationTiming !== 'before')
+        ) {
+          const cascadeTags = getCascadeTags(
+            model,
+            action,
+            beforeMutationEntities,
+            afterEntities,
+          )
+          for (const tag of cascadeTags) {
+            tags.add(tag)
           }
         }
+
+        await invalidateTags([...tags])
       },
 
+      // コミット後に afterEntityMutation を呼び出させる
+      runAfterMutationWithinTransaction: false,
+    },
+
+    /**
+     * Kysely Query Hooks: クエリビルダー（$qb）と raw SQL のキャッシュ
+     * - $qb の SELECT: cacheQueryBuilder が有効なら、参照しているテーブルのモデルのタグを付与してキャッシュする
+     * - $qb の INSERT / UPDATE / DELETE: ORM が onEntityMutation を呼び出すため、ここでは扱わない
+     * - raw SQL: onEntityMutation を経由しないため、SQL から書き込み先のモデルを特定して無効化する
+     *   （$transaction() 内ではコミット後に無効化する）
+     */
+    onKyselyQuery: async (args) => {
+      const { query, proceed } = args
+      if (ormOperationStorage.getStore()) {
+        return proceed(query)
+      }
+      if (query.kind === 'SelectQueryNode' && cacheQueryBuilder) {
+        return readQueryBuilder(args)
+      }
+      if (!isRawQueryNode(query)) {
+        return proceed(query)
+      }
+
+      const tags = getRawWriteTags(query.sqlFragments.join('?'))
+      if (tags.length === 0) {
+        return proceed(query)
+      }
+      log('Raw SQL write', { tags })
+
+      const pendingTags = transactionStorage.getStore()
+      if (pendingTags) {
+        log('Deferring raw SQL write invalidation until commit', { tags })
+        for (const tag of tags) {
+          pendingTags.add(tag)
+        }
+        return proceed(query)
+      }
+
+      if (invalidationTiming !== 'after') {
+        await invalidateTags(tags)
+      }
+      const result = await proceed(query)
+      if (invalidationTiming !== 'before') {
+        await invalidateTags(tags)
+      }
+      return result
     },
 
     /**
      * Query API Hooks: ORM操作をインターセプト
      */
     onQuery: async (ctx) => {
-      const { model, operation, args: queryArgs, proceed, client } = ctx
+      const { model, operation, args, client } = ctx
+      const inTransaction = isTransactionClient(client)
+      // ORM の操作が発行する Kysely クエリとミューテーションフックで参照するため、実行中であることを記録する
+      const proceed = (queryArgs: typeof args) =>
+        ormOperationStorage.run({ inTransaction }, () => ctx.proceed(queryArgs))
+
+      // `$cache` オプションは ORM に渡さない
+      const { args: queryArgs, cacheOptions: queryCacheOptions } =
+        splitCacheOptions(args)
+      const cacheOptions = resolveCacheOptions(queryCacheOptions)
 
       // 除外モデルはスキップ（オプション or スキーマ属性）
       if (isExcludedModel(model)) {
@@ -603,70 +3334,82 @@ export function createNextjsCachePlugin(
         return proceed(queryArgs)
       }
 
-      // ポリシープラグイン使用時のユーザー情報を取得
-      // $authが設定されている場合、キャッシュキーにユーザーIDを含める
-      const authUser = client.$auth as { id?: string } | undefined
-      const userId = authUser?.id
-
-      // 読み取り操作の場合、unstable_cacheでラップ
+      // 読み取り操作の場合、キャッシュストアでラップ
       if (isReadOperation(operation)) {
-        const id = extractIdFromArgs(queryArgs)
-        const tags = getTagsForModel(model, id)
-        const life = getLifeForModel(model)
-        const revalidateSeconds = getCacheRevalidateSeconds(life)
-
-        // リレーションで参照しているモデルのタグも追加
-        const includedRelations = extractIncludedRelations(queryArgs, model)
-        for (const relatedModel of includedRelations) {
+        const id = extractIdFromArgs(queryArgs, model)
+        const tagSet = new Set(getTagsForModel(model, id))
+        // 委譲の継承階層のモデルは主キーを共有するため、同じキーのタグを付与する
+        for (const hierarchyModel of getDelegateHierarchy(model)) {
+          if (!isExcludedModel(hierarchyModel)) {
+            for (const tag of getTagsForModel(hierarchyModel, id)) {
+              tagSet.add(tag)
+            }
+          }
+        }
+
+        // リレーションで参照しているモデル（include / select / where / orderBy）のタグも追加
+        const relatedModels = extractRelationDependencies(
+          queryArgs,
+          model,
+          maxRelationDepth,
+        )
+        // リレーション先が委譲モデルの場合は継承階層全体に依存する
+        const relatedHierarchy = new Set(
+          relatedModels.flatMap((relatedModel) => [
+            relatedModel,
+            ...getDelegateHierarchy(relatedModel),
+          ]),
+        )
+        for (const relatedModel of relatedHierarchy) {
           // 除外モデルでなければタグを追加
           if (!isExcludedModel(relatedModel)) {
-            tags.push(`${relatedModel.toLowerCase()}:list`)
+            for (const tag of getTagsForModel(relatedModel)) {
+              tagSet.add(tag)
+            }
           }
         }
 
-        // キャッシュキーを生成（ユーザーIDを含める）
-        const cacheKey = generateCacheKey(model, operation, queryArgs, userId)
-
-        log(`Read operation: ${model}.${operation}`, {
-          cacheKey,
-          includedRelations,
-          life,
-          queryArgs,
-          revalidateSeconds,
-          tags,
-          userId,
+        // キャッシュミス時に発生した not-found エラー（元のエラーをそのまま返すため）
+        let notFoundError: ORMError | undefined
+
+        return readCached({
+          cacheOptions,
+          client,
+          details: { queryArgs, relatedModels },
+          execute: async () => {
+            let result: unknown
+            try {
+              result = await proceed(queryArgs)
+            } catch (e) {
+              // not-found エラーはネガティブキャッシュの対象、それ以外はそのまま伝播させる
+              if (!negativeCacheEnabled || !isNotFoundError(e)) throw e
+              notFoundError = e
+              return toNotFoundMarker(e)
+            }
+            // ネガティブキャッシュが無効な場合、null の結果は保存しない
+            if (!negativeCacheEnabled && result === null) {
+              throw new UncachedResult(result)
+            }
+            // ORM が返した値を型情報付きで保存し、そのままの値に戻す
+            return toCacheValue(result)
+          },
+          inTransaction,
+          keyArgs: queryArgs,
+          life: getLifeForModel(model),
+          model,
+          // リレーション先を含めてアクセスポリシーを判定する
+          models: [model, ...relatedHierarchy],
+          operation,
+          proceed: () => proceed(queryArgs),
+          restore: (value) => {
+            // キャッシュされた not-found エラーを再生成
+            if (isNotFoundMarker(value)) {
+              throw notFoundError ?? fromNotFoundMarker(value, model)
+            }
+            return fromCacheValue(value)
+          },
+          tags: [...tagSet],
         })
-
-        try {
-          const { unstable_cache } = await import('next/cache')
-
-          // unstable_cacheでクエリをラップ
-          const cachedQuery = unstable_cache(
-            async () => {
-              // キャッシュミス時にログ出力
-              log(`Cache MISS: ${model}.${operation}`, { cacheKey, tags })
-              const result = await proceed(queryArgs)
-              // Date型をISO文字列に変換
-              return transformDates(result)
-            },
-            cacheKey,
-            {
-              revalidate: revalidateSeconds,
-              tags,
-            },
-          )
-
-          const cachedResult = await cachedQuery()
-          // ISO文字列をDate型に復元して返却
-          return restoreDates(cachedResult, model)
-        } catch (e) {
-          // unstable_cache が利用できない環境（テスト等）ではフォールバック
-          log('unstable_cache not available, falling back to direct query', e)
-          const result = await proceed(queryArgs)
-          // Date型をISO文字列に変換してから復元（一貫性のため）
-          const transformed = transformDates(result)
-          return restoreDates(transformed, model)
-        }
       }
 
       // 書き込み操作は直接実行
@@ -676,72 +3419,34 @@ export function createNextjsCachePlugin(
 }
 
 /**
- * タグを無効化するヘルパー関数
- * Server Actions では updateTag（即時無効化）を優先、
- * Route Handlers 等では revalidateTag（stale-while-revalidate）にフォールバック
+ * cacheScope のデフォルト: $auth.id ごとにスコープを分ける
  */
-async function invalidateTag(
-  tag: string,
-  log: (message: string, ...args: unknown[]) => void,
-): Promise<void> {
-  try {
-    // まず updateTag を試みる（Server Actions 限定、即時無効化）
-    const { updateTag } = await import('next/cache')
-    updateTag(tag)
-    log(`Updated tag (immediate): ${tag}`)
-  } catch {
-    // updateTag が使えない場合は revalidateTag にフォールバック
-    try {
-      const { revalidateTag } = await import('next/cache')
-      revalidateTag(tag, 'max')
-      log(`Revalidated tag (stale-while-revalidate): ${tag}`)
-    } catch (e) {
-      log(`Failed to invalidate tag: ${tag}`, e)
-    }
-  }
+function getAuthIdScope(auth: Record<string, unknown> | undefined): string {
+  const id = auth?.id
+  return id === undefined || id === null || id === '' ? 'public' : String(id)
 }
 
 /**
- * モデルに関連するキャッシュを無効化するヘルパー関数
+ * クライアントがトランザクション内で実行されているかどうかを判定
  */
-async function invalidateCacheForModel(
-  model: string,
-  loadEntities: () => Promise<Record<string, unknown>[] | undefined>,
-  log: (message: string, ...args: unknown[]) => void,
-): Promise<void> {
-  try {
-    // リスト全体のキャッシュを無効化
-    const listTag = `${model.toLowerCase()}:list`
-    await invalidateTag(listTag, log)
-
-    // 個別エンティティのキャッシュも無効化
-    const entities = await loadEntities()
-    if (entities && Array.isArray(entities)) {
-      for (const entity of entities) {
-        if (entity && typeof entity === 'object' && 'id' in entity) {
-          const entityTag = `${model.toLowerCase()}:${entity.id}`
-          // biome-ignore lint/performance/noAwaitInLoops: キャッシュ無効化は順次実行が必要
-          await invalidateTag(entityTag, log)
-        }
-      }
-    }
-  } catch {
-    // next/cache が利用できない環境では無視
-    log('next/cache not available for invalidation')
-  }
+function isTransactionClient(client: unknown): boolean {
+  return (
+    !!client &&
+    typeof client === 'object' &&
+    (client as { isTransaction?: unknown }).isTransaction === true
+  )
 }
 
 /**
- * リレーション先モデルのリストキャッシュを無効化
+ * raw SQL（$executeRaw / $queryRaw 等）のクエリノードかどうかを判定
  */
-async function invalidateRelatedModelCache(
-  model: string,
-  log: (message: string, ...args: unknown[]) => void,
-): Promise<void> {
-  try {
-    const listTag = `${model.toLowerCase()}:list`
-    await invalidateTag(listTag, log)
-  } catch {
-    log('next/cache not available for invalidation')
-  }
+function isRawQueryNode(
+  node: unknown,
+): node is { kind: 'RawNode'; sqlFragments: readonly string[] } {
+  return (
+    !!node &&
+    typeof node === 'object' &&
+    (node as { kind?: unknown }).kind === 'RawNode' &&
+    Array.isArray((node as { sqlFragments?: unknown }).sqlFragments)
+  )
 }
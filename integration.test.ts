@@ -8,6 +8,7 @@
 import { type ClientContract, ZenStackClient } from '@zenstackhq/orm'
 import { SqliteDialect } from '@zenstackhq/orm/dialects/sqlite'
 import Database from 'better-sqlite3'
+import Decimal from 'decimal.js'
 import {
   afterAll,
   beforeAll,
@@ -17,7 +18,15 @@ import {
   it,
   vi,
 } from 'vitest'
-import { createNextjsCachePlugin } from './index'
+import { schema as testSchema } from 'zenstack/schema'
+import {
+  createCacheRequestScope,
+  createMemoryCacheStore,
+  createNextjsCachePlugin,
+  type InvalidationTiming,
+  type NextjsCachePluginOptions,
+  runWithCacheRequestScope,
+} from './index'
 
 // next/cache のモック
 const mockCacheTag = vi.fn()
@@ -46,46 +55,192 @@ vi.mock('next/cache', () => ({
 const testId = () => `test-${Date.now()}-${Math.random().toString(36).slice(2)}`
 
 // テスト用のスキーマ定義（SQLite用に簡略化）
-import { ExpressionUtils } from '@zenstackhq/orm/schema'
-
-const testSchema = {
-  models: {
-    Session: {
-      fields: {
-        id: { id: true, name: 'id', type: 'String' },
-        token: { name: 'token', type: 'String' },
-        userId: { name: 'userId', type: 'String' },
-      },
-      idFields: ['id'],
-      name: 'Session',
-      uniqueFields: { id: { type: 'String' } },
-    },
-    User: {
-      fields: {
-        createdAt: {
-          default: ExpressionUtils.call('now'),
-          name: 'createdAt',
-          optional: true,
-          type: 'DateTime',
+// プラグインが参照する zenstack/schema もクライアントと同じスキーマにする
+vi.mock('zenstack/schema', async () => {
+  const { ExpressionUtils } = await import('@zenstackhq/orm/schema')
+  return {
+    schema: {
+      models: {
+        Asset: {
+          attributes: [
+            {
+              args: [
+                {
+                  name: 'discriminator',
+                  value: ExpressionUtils.field('assetType'),
+                },
+              ],
+              name: '@@delegate',
+            },
+          ],
+          fields: {
+            assetType: {
+              isDiscriminator: true,
+              name: 'assetType',
+              type: 'String',
+            },
+            id: { id: true, name: 'id', type: 'String' },
+            title: { name: 'title', type: 'String' },
+          },
+          idFields: ['id'],
+          isDelegate: true,
+          name: 'Asset',
+          subModels: ['Video'],
+          uniqueFields: { id: { type: 'String' } },
+        },
+        Comment: {
+          fields: {
+            body: { name: 'body', type: 'String' },
+            id: { id: true, name: 'id', type: 'String' },
+            post: {
+              name: 'post',
+              relation: {
+                fields: ['postId'],
+                onDelete: 'Cascade',
+                opposite: 'comments',
+                references: ['id'],
+              },
+              type: 'Post',
+            },
+            postId: {
+              foreignKeyFor: ['post'],
+              name: 'postId',
+              type: 'String',
+            },
+          },
+          idFields: ['id'],
+          name: 'Comment',
+          uniqueFields: { id: { type: 'String' } },
+        },
+        Post: {
+          fields: {
+            author: {
+              name: 'author',
+              relation: {
+                fields: ['authorId'],
+                onDelete: 'Cascade',
+                opposite: 'posts',
+                references: ['id'],
+              },
+              type: 'User',
+            },
+            authorId: {
+              foreignKeyFor: ['author'],
+              name: 'authorId',
+              type: 'String',
+            },
+            comments: {
+              array: true,
+              name: 'comments',
+              relation: { opposite: 'post' },
+              type: 'Comment',
+            },
+            id: { id: true, name: 'id', type: 'String' },
+            tags: {
+              array: true,
+              name: 'tags',
+              relation: { opposite: 'posts' },
+              type: 'Tag',
+            },
+            title: { name: 'title', type: 'String' },
+          },
+          idFields: ['id'],
+          name: 'Post',
+          uniqueFields: { id: { type: 'String' } },
+        },
+        Product: {
+          attributes: [
+            {
+              args: [
+                { name: 'name', value: ExpressionUtils.literal('products') },
+              ],
+              name: '@@map',
+            },
+          ],
+          fields: {
+            id: { id: true, name: 'id', type: 'String' },
+            price: { name: 'price', type: 'Decimal' },
+          },
+          idFields: ['id'],
+          name: 'Product',
+          uniqueFields: { id: { type: 'String' } },
         },
-        email: { name: 'email', type: 'String' },
-        id: { id: true, name: 'id', type: 'String' },
-        name: { name: 'name', type: 'String' },
-        updatedAt: {
-          default: ExpressionUtils.call('now'),
-          name: 'updatedAt',
-          optional: true,
-          type: 'DateTime',
-          updatedAt: true,
+        Session: {
+          fields: {
+            id: { id: true, name: 'id', type: 'String' },
+            token: { name: 'token', type: 'String' },
+            userId: { name: 'userId', type: 'String' },
+          },
+          idFields: ['id'],
+          name: 'Session',
+          uniqueFields: { id: { type: 'String' } },
+        },
+        Tag: {
+          fields: {
+            id: { id: true, name: 'id', type: 'String' },
+            name: { name: 'name', type: 'String' },
+            posts: {
+              array: true,
+              name: 'posts',
+              relation: { opposite: 'tags' },
+              type: 'Post',
+            },
+          },
+          idFields: ['id'],
+          name: 'Tag',
+          uniqueFields: { id: { type: 'String' } },
+        },
+        Video: {
+          baseModel: 'Asset',
+          fields: {
+            assetType: {
+              isDiscriminator: true,
+              name: 'assetType',
+              originModel: 'Asset',
+              type: 'String',
+            },
+            id: { id: true, name: 'id', originModel: 'Asset', type: 'String' },
+            title: { name: 'title', originModel: 'Asset', type: 'String' },
+            url: { name: 'url', type: 'String' },
+          },
+          idFields: ['id'],
+          name: 'Video',
+          uniqueFields: { id: { type: 'String' } },
+        },
+        User: {
+          fields: {
+            createdAt: {
+              default: ExpressionUtils.call('now'),
+              name: 'createdAt',
+              optional: true,
+              type: 'DateTime',
+            },
+            email: { name: 'email', type: 'String' },
+            id: { id: true, name: 'id', type: 'String' },
+            name: { name: 'name', type: 'String' },
+            posts: {
+              array: true,
+              name: 'posts',
+              relation: { opposite: 'author' },
+              type: 'Post',
+            },
+            updatedAt: {
+              default: ExpressionUtils.call('now'),
+              name: 'updatedAt',
+              optional: true,
+              type: 'DateTime',
+              updatedAt: true,
+            },
+          },
+          idFields: ['id'],
+          name: 'User',
+          uniqueFields: { email: { type: 'String' }, id: { type: 'String' } },
         },
       },
-      idFields: ['id'],
-      name: 'User',
-      uniqueFields: { email: { type: 'String' }, id: { type: 'String' } },
+      provider: { type: 'sqlite' },
     },
-  },
-  provider: { type: 'sqlite' as const },
-}
+  }
+})
 
 describe('Next.js Cache Plugin 統合テスト', () => {
   let sqlite: Database.Database
@@ -96,6 +251,8 @@ describe('Next.js Cache Plugin 統合テスト', () => {
   beforeAll(() => {
     // インメモリ SQLite データベースを作成
     sqlite = new Database(':memory:')
+    // 参照アクション（ON DELETE CASCADE）を有効にする
+    sqlite.pragma('foreign_keys = ON')
 
     // テーブルを作成
     sqlite.exec(`
@@ -107,6 +264,45 @@ describe('Next.js Cache Plugin 統合テスト', () => {
         updatedAt TEXT DEFAULT (datetime('now'))
       );
 
+      CREATE TABLE products (
+        id TEXT PRIMARY KEY,
+        price DECIMAL NOT NULL
+      );
+
+      CREATE TABLE post (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        authorId TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE comment (
+        id TEXT PRIMARY KEY,
+        body TEXT NOT NULL,
+        postId TEXT NOT NULL REFERENCES post(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE tag (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL
+      );
+
+      CREATE TABLE _PostToTag (
+        A TEXT NOT NULL REFERENCES post(id) ON DELETE CASCADE,
+        B TEXT NOT NULL REFERENCES tag(id) ON DELETE CASCADE,
+        PRIMARY KEY (A, B)
+      );
+
+      CREATE TABLE asset (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        assetType TEXT NOT NULL
+      );
+
+      CREATE TABLE video (
+        id TEXT PRIMARY KEY REFERENCES asset(id) ON DELETE CASCADE,
+        url TEXT NOT NULL
+      );
+
       CREATE TABLE session (
         id TEXT PRIMARY KEY,
         token TEXT NOT NULL,
@@ -115,18 +311,64 @@ describe('Next.js Cache Plugin 統合テスト', () => {
     `)
   })
 
-  beforeEach(() => {
-    vi.clearAllMocks()
-
-    // ZenStack クライアントを作成
+  // 共有の SQLite データベースに接続する ZenStack クライアントを作成
+  const createBaseClient = () =>
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     // biome-ignore lint/suspicious/noExplicitAny: テストスキーマの型キャスト
-    const baseDb = new ZenStackClient(testSchema as any, {
+    new ZenStackClient(testSchema as any, {
       dialect: new SqliteDialect({ database: sqlite }),
     })
 
+  // インメモリキャッシュストアを使用するクライアントを作成
+  const createMemoryClient = (options: NextjsCachePluginOptions = {}) =>
+    createBaseClient().$use(
+      createNextjsCachePlugin({
+        cacheStore: createMemoryCacheStore(),
+        ...options,
+      }),
+    )
+
+  // 無効化のたびに、その時点で読み取れる行の name を記録するクライアントを作成
+  const createRecordingClient = (
+    userId: string,
+    invalidationTiming?: InvalidationTiming,
+  ) => {
+    const names: unknown[] = []
+    const client = createBaseClient().$use(
+      createNextjsCachePlugin({
+        cacheStore: {
+          get: async () => undefined,
+          invalidateTags: async (tags) => {
+            if (!tags.includes('user:list')) return
+            const row = sqlite
+              .prepare('SELECT name FROM user WHERE id = ?')
+              .get(userId) as { name: string } | undefined
+            names.push(row?.name)
+          },
+          set: async () => undefined,
+        },
+        invalidationTiming,
+      }),
+    )
+    return { client, names }
+  }
+
+  // 名前が 'Before' のユーザーをキャッシュを通さずに作成
+  const createUser = async (userId: string) => {
+    await createBaseClient().user.create({
+      data: {
+        email: `recording-${userId}@example.com`,
+        id: userId,
+        name: 'Before',
+      },
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
     // プラグインを適用
-    db = baseDb.$use(
+    db = createBaseClient().$use(
       createNextjsCachePlugin({
         defaultCacheLife: 'hours',
         excludeModels: ['Session'],
@@ -320,6 +562,118 @@ describe('Next.js Cache Plugin 統合テスト', () => {
     })
   })
 
+  describe('クエリ単位のキャッシュ設定（$cache）', () => {
+    let testUserId: string
+
+    beforeEach(async () => {
+      testUserId = testId()
+
+      await db.user.create({
+        data: {
+          email: `cache-option-${testUserId}@example.com`,
+          id: testUserId,
+          name: 'Cache Option User',
+        },
+      })
+      vi.clearAllMocks()
+    })
+
+    it('$cache の life と tags がキャッシュ設定に反映される', async () => {
+      const users = await db.user.findMany({
+        $cache: { life: 'minutes', tags: ['home'] },
+        where: { id: testUserId },
+      })
+
+      expect(users).toHaveLength(1)
+      expect(mockUnstableCache).toHaveBeenCalledTimes(1)
+      const [, keys, options] = mockUnstableCache.mock.calls[0] as [
+        unknown,
+        string[],
+        { tags: string[]; revalidate: number },
+      ]
+      expect(options.revalidate).toBe(60)
+      expect(options.tags).toEqual(['user:list', `user:${testUserId}`, 'home'])
+      // $cache はキャッシュキーに含めない
+      expect(keys.join()).not.toContain('$cache')
+    })
+
+    it('$cache.skip でキャッシュせずに取得する', async () => {
+      const user = await db.user.findUnique({
+        $cache: { skip: true },
+        where: { id: testUserId },
+      })
+
+      expect(user).toMatchObject({ id: testUserId })
+      expect(mockUnstableCache).not.toHaveBeenCalled()
+    })
+
+    it('不正な $cache は検証エラーになる', async () => {
+      await expect(
+        db.user.findMany({ $cache: { life: 'forever' } }),
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('クライアント単位のキャッシュ設定（$withCache / $noCache）', () => {
+    let testUserId: string
+
+    beforeEach(async () => {
+      testUserId = testId()
+
+      await db.user.create({
+        data: {
+          email: `client-option-${testUserId}@example.com`,
+          id: testUserId,
+          name: 'Client Option User',
+        },
+      })
+      vi.clearAllMocks()
+    })
+
+    it('$noCache() のクライアントはキャッシュせずに取得する', async () => {
+      const user = await db.$noCache().user.findUnique({
+        where: { id: testUserId },
+      })
+
+      expect(user).toMatchObject({ id: testUserId })
+      expect(mockUnstableCache).not.toHaveBeenCalled()
+    })
+
+    it('$noCache() のクライアントでもミューテーション時に無効化する', async () => {
+      await db.$noCache().user.update({
+        data: { name: 'Updated by noCache' },
+        where: { id: testUserId },
+      })
+
+      expect(mockUpdateTag).toHaveBeenCalledWith('user:list')
+      expect(mockUpdateTag).toHaveBeenCalledWith(`user:${testUserId}`)
+    })
+
+    it('$withCache() の設定が読み取りに適用される', async () => {
+      await db
+        .$setAuth({ id: 'auth-user' })
+        .$withCache({ life: 'days', scope: 'public' })
+        .user.findMany({ where: { id: testUserId } })
+
+      expect(mockUnstableCache).toHaveBeenCalledTimes(1)
+      const [, keys, options] = mockUnstableCache.mock.calls[0] as [
+        unknown,
+        string[],
+        { revalidate: number },
+      ]
+      expect(options.revalidate).toBe(86400)
+      // scope: 'public' ではユーザーIDをキャッシュキーに含めない
+      expect(keys[0]).toBe('user:findMany')
+    })
+
+    it('元のクライアントの設定は変更されない', async () => {
+      db.$noCache()
+      await db.user.findUnique({ where: { id: testUserId } })
+
+      expect(mockUnstableCache).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('除外モデル（Session）の動作', () => {
     it('除外モデルはキャッシュタグを設定しない', async () => {
       // Session モデルの読み取りを試みる
@@ -333,11 +687,733 @@ describe('Next.js Cache Plugin 統合テスト', () => {
     })
   })
 
+  describe('Cache Components バックエンド', () => {
+    it('読み取り時に cacheTag と cacheLife が設定される', async () => {
+      const cacheComponentsDb = createBaseClient().$use(
+        createNextjsCachePlugin({
+          cacheBackend: 'cache-components',
+          defaultCacheLife: 'days',
+        }),
+      )
+
+      const userId = testId()
+      await cacheComponentsDb.user.create({
+        data: {
+          email: `cache-components-${userId}@example.com`,
+          id: userId,
+          name: 'Cache Components User',
+        },
+      })
+
+      const user = await cacheComponentsDb.user.findUnique({
+        where: { id: userId },
+      })
+
+      expect(user?.createdAt).toBeInstanceOf(Date)
+      expect(mockCacheTag).toHaveBeenCalledWith('user:list', `user:${userId}`)
+      expect(mockCacheLife).toHaveBeenCalledWith('days')
+      expect(mockUnstableCache).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('インメモリキャッシュストア', () => {
+    it('更新後の読み取りでは新しい値を返す', async () => {
+      const memoryDb = createMemoryClient()
+
+      const userId = testId()
+      await memoryDb.user.create({
+        data: {
+          email: `memory-${userId}@example.com`,
+          id: userId,
+          name: 'Before',
+        },
+      })
+
+      const before = await memoryDb.user.findUnique({ where: { id: userId } })
+      expect(before?.name).toBe('Before')
+      expect(before?.createdAt).toBeInstanceOf(Date)
+
+      await memoryDb.user.update({
+        data: { name: 'After' },
+        where: { id: userId },
+      })
+
+      const after = await memoryDb.user.findUnique({ where: { id: userId } })
+      expect(after?.name).toBe('After')
+      expect(mockUnstableCache).not.toHaveBeenCalled()
+      expect(mockUpdateTag).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('raw SQL の書き込み', () => {
+    it('$executeRaw / $executeRawUnsafe の書き込み後は新しい値を返す', async () => {
+      const memoryDb = createMemoryClient()
+
+      const userId = testId()
+      await memoryDb.user.create({
+        data: {
+          email: `raw-${userId}@example.com`,
+          id: userId,
+          name: 'Before',
+        },
+      })
+      const before = await memoryDb.user.findUnique({ where: { id: userId } })
+      expect(before?.name).toBe('Before')
+
+      await memoryDb.$executeRaw`UPDATE user SET name = ${'Raw'} WHERE id = ${userId}`
+      const afterRaw = await memoryDb.user.findUnique({ where: { id: userId } })
+      expect(afterRaw?.name).toBe('Raw')
+
+      await memoryDb.$executeRawUnsafe(
+        'DELETE FROM "user" WHERE id = ?',
+        userId,
+      )
+      expect(
+        await memoryDb.user.findUnique({ where: { id: userId } }),
+      ).toBeNull()
+    })
+
+    describe('トランザクション内', () => {
+      it('コミット後にだけ無効化する', async () => {
+        const userId = testId()
+        await createUser(userId)
+        const { client, names } = createRecordingClient(userId)
+
+        await client.$transaction(async (tx) => {
+          await tx.$executeRaw`UPDATE user SET name = ${'Raw'} WHERE id = ${userId}`
+          expect(names).toEqual([])
+        })
+
+        expect(names).toEqual(['Raw'])
+      })
+
+      it('ロールバック時は無効化しない', async () => {
+        const userId = testId()
+        await createUser(userId)
+        const { client, names } = createRecordingClient(userId)
+
+        await expect(
+          client.$transaction(async (tx) => {
+            await tx.$executeRaw`UPDATE user SET name = ${'Raw'} WHERE id = ${userId}`
+            throw new Error('rollback')
+          }),
+        ).rejects.toThrow('rollback')
+
+        expect(names).toEqual([])
+      })
+    })
+  })
+
+  describe('クエリビルダー（$qb）', () => {
+    it('SELECT をキャッシュし、ORM と $qb の書き込みで無効化する', async () => {
+      const memoryDb = createMemoryClient({ cacheQueryBuilder: true })
+
+      const userId = testId()
+      await memoryDb.user.create({
+        data: { email: `qb-${userId}@example.com`, id: userId, name: 'Before' },
+      })
+      const selectName = async () =>
+        (
+          await memoryDb.$qb
+            .selectFrom('User')
+            .select(['name'])
+            .where('id', '=', userId)
+            .executeTakeFirst()
+        )?.name
+
+      expect(await selectName()).toBe('Before')
+
+      // キャッシュを経由しない書き込みでは古い値が返る
+      sqlite
+        .prepare('UPDATE user SET name = ? WHERE id = ?')
+        .run('Direct', userId)
+      expect(await selectName()).toBe('Before')
+
+      await memoryDb.user.update({
+        data: { name: 'Orm' },
+        where: { id: userId },
+      })
+      expect(await selectName()).toBe('Orm')
+
+      await memoryDb.$qb
+        .updateTable('User')
+        .set({ name: 'Qb' })
+        .where('id', '=', userId)
+        .execute()
+      expect(await selectName()).toBe('Qb')
+    })
+
+    it('キャッシュを経由しても $qb と同じ値を返す', async () => {
+      const memoryDb = createMemoryClient({ cacheQueryBuilder: true })
+
+      const userId = testId()
+      const productId = testId()
+      await memoryDb.user.create({
+        data: {
+          createdAt: new Date('2024-01-15T10:30:00.000Z'),
+          email: `qb-types-${userId}@example.com`,
+          id: userId,
+          name: 'Types',
+        },
+      })
+      await memoryDb.product.create({ data: { id: productId, price: '1.5' } })
+      // biome-ignore lint/suspicious/noExplicitAny: テストスキーマの型キャスト
+      const select = (client: ClientContract<any>) =>
+        client.$qb
+          .selectFrom(['User', 'Product'])
+          .select(['User.name', 'User.createdAt', 'Product.price'])
+          .where('User.id', '=', userId)
+          .where('Product.id', '=', productId)
+          .execute()
+
+      const uncached = await select(createBaseClient())
+      // キャッシュミス時とキャッシュヒット時の両方
+      expect(await select(memoryDb)).toEqual(uncached)
+      expect(await select(memoryDb)).toEqual(uncached)
+    })
+
+    it('@@map でテーブル名を変えたモデルの SELECT もキャッシュする', async () => {
+      const memoryDb = createMemoryClient({ cacheQueryBuilder: true })
+
+      const productId = testId()
+      await memoryDb.product.create({ data: { id: productId, price: '1' } })
+      const selectPrice = async () =>
+        String(
+          (
+            await memoryDb.$qb
+              .selectFrom('Product')
+              .select(['price'])
+              .where('id', '=', productId)
+              .executeTakeFirst()
+          )?.price,
+        )
+
+      expect(await selectPrice()).toBe('1')
+
+      // キャッシュを経由しない書き込みでは古い値が返る
+      sqlite
+        .prepare('UPDATE products SET price = ? WHERE id = ?')
+        .run('2', productId)
+      expect(await selectPrice()).toBe('1')
+
+      await memoryDb.product.update({
+        data: { price: '3' },
+        where: { id: productId },
+      })
+      expect(await selectPrice()).toBe('3')
+    })
+
+    it('トランザクション内の SELECT はキャッシュしない', async () => {
+      const memoryDb = createMemoryClient({ cacheQueryBuilder: true })
+
+      const userId = testId()
+      await memoryDb.user.create({
+        data: {
+          email: `qb-tx-${userId}@example.com`,
+          id: userId,
+          name: 'Before',
+        },
+      })
+
+      await memoryDb.$transaction(async (tx) => {
+        const selectName = async () =>
+          (
+            await tx.$qb
+              .selectFrom('User')
+              .select(['name'])
+              .where('id', '=', userId)
+              .executeTakeFirst()
+          )?.name
+
+        expect(await selectName()).toBe('Before')
+        await tx.$qb
+          .updateTable('User')
+          .set({ name: 'After' })
+          .where('id', '=', userId)
+          .execute()
+        expect(await selectName()).toBe('After')
+      })
+    })
+  })
+
+  describe('スコープ単位のキャッシュ無効化', () => {
+    it('$revalidateCacheScope() で指定したユーザーのキャッシュだけを無効化する', async () => {
+      const memoryDb = createMemoryClient()
+
+      const userId = testId()
+      await memoryDb.user.create({
+        data: {
+          email: `scope-${userId}@example.com`,
+          id: userId,
+          name: 'Before',
+        },
+      })
+      const readName = async (authId: string) =>
+        (
+          await memoryDb
+            .$setAuth({ id: authId })
+            .user.findUnique({ where: { id: userId } })
+        )?.name
+
+      expect(await readName('alice')).toBe('Before')
+      expect(await readName('bob')).toBe('Before')
+
+      // キャッシュを経由しない書き込み
+      sqlite
+        .prepare('UPDATE user SET name = ? WHERE id = ?')
+        .run('After', userId)
+      await memoryDb.$revalidateCacheScope('alice')
+
+      expect(await readName('alice')).toBe('After')
+      expect(await readName('bob')).toBe('Before')
+    })
+  })
+
+  describe('集計結果の型復元', () => {
+    it('aggregate / groupBy / count の結果をキャッシュなしと同じ型で返す', async () => {
+      const memoryDb = createMemoryClient()
+      const baseDb = createBaseClient()
+
+      const userId = testId()
+      await baseDb.user.create({
+        data: { email: `agg-${userId}@example.com`, id: userId, name: 'Agg' },
+      })
+
+      const where = { id: userId }
+      const aggregateArgs = {
+        _count: true,
+        _max: { createdAt: true },
+        _min: { updatedAt: true },
+        where,
+      } as const
+      const groupByArgs = {
+        _max: { updatedAt: true },
+        by: ['createdAt'],
+        where,
+      } as const
+      const read = async (client: typeof baseDb) => ({
+        aggregate: await client.user.aggregate(aggregateArgs),
+        count: await client.user.count({ where }),
+        groups: await client.user.groupBy(groupByArgs),
+      })
+
+      const uncached = await read(baseDb)
+      expect(uncached.aggregate._count).toBe(1)
+
+      // 1回目（キャッシュミス）と2回目（キャッシュヒット）で同じ型を返す
+      for (let i = 0; i < 2; i++) {
+        const cached = await read(memoryDb)
+        expect(cached).toEqual(uncached)
+      }
+    })
+  })
+
+  describe('Decimal の型復元', () => {
+    it('Decimal フィールドと集計結果をキャッシュなしと同じ型で返す', async () => {
+      const memoryDb = createMemoryClient()
+      const baseDb = createBaseClient()
+
+      const productId = testId()
+      await baseDb.product.create({ data: { id: productId, price: '12.5' } })
+
+      const where = { id: productId }
+      const aggregateArgs = {
+        _avg: { price: true },
+        _max: { price: true },
+        _sum: { price: true },
+        where,
+      } as const
+      const groupByArgs = {
+        _sum: { price: true },
+        by: ['price'],
+        where,
+      } as const
+      const read = async (client: typeof baseDb) => ({
+        aggregate: await client.product.aggregate(aggregateArgs),
+        groups: await client.product.groupBy(groupByArgs),
+        product: await client.product.findUnique({ where }),
+      })
+
+      const uncached = await read(baseDb)
+      expect(uncached.product?.price).toBeInstanceOf(Decimal)
+
+      // 1回目（キャッシュミス）と2回目（キャッシュヒット）で同じ型を返す
+      for (let i = 0; i < 2; i++) {
+        const cached = await read(memoryDb)
+        expect(cached).toEqual(uncached)
+      }
+    })
+  })
+
+  describe('not-found 結果のキャッシュ', () => {
+    it('findUniqueOrThrow の not-found をキャッシュし、作成時に無効化する', async () => {
+      const memoryDb = createMemoryClient()
+
+      const userId = testId()
+      const findUser = () =>
+        memoryDb.user.findUniqueOrThrow({ where: { id: userId } })
+
+      await expect(findUser()).rejects.toMatchObject({ reason: 'not-found' })
+
+      // キャッシュを経由しない書き込みでは not-found のまま
+      await createBaseClient().user.create({
+        data: { email: `nf-${userId}@example.com`, id: userId, name: 'NF' },
+      })
+      await expect(findUser()).rejects.toMatchObject({ reason: 'not-found' })
+
+      // プラグイン経由のミューテーションで無効化される
+      await memoryDb.user.update({
+        data: { name: 'Found' },
+        where: { id: userId },
+      })
+      await expect(findUser()).resolves.toMatchObject({ name: 'Found' })
+    })
+  })
+
+  describe('トランザクション内の読み取り', () => {
+    it('デフォルトではトランザクション内の読み取りをキャッシュしない', async () => {
+      const userId = testId()
+
+      await db.$transaction(async (tx) => {
+        await tx.user.create({
+          data: {
+            email: `tx-read-${userId}@example.com`,
+            id: userId,
+            name: 'Tx Read User',
+          },
+        })
+
+        // 自身の書き込みがキャッシュを経由せずに読める
+        const user = await tx.user.findUnique({ where: { id: userId } })
+        expect(user?.name).toBe('Tx Read User')
+      })
+
+      expect(mockUnstableCache).not.toHaveBeenCalled()
+
+      // トランザクション外の読み取りはキャッシュされる
+      await db.user.findUnique({ where: { id: userId } })
+      expect(mockUnstableCache).toHaveBeenCalledTimes(1)
+    })
+
+    it('cacheInTransaction: true の場合はトランザクション内でもキャッシュする', async () => {
+      const txCacheDb = createBaseClient().$use(
+        createNextjsCachePlugin({ cacheInTransaction: true }),
+      )
+
+      await txCacheDb.$transaction(async (tx) => {
+        await tx.user.findMany()
+      })
+
+      expect(mockUnstableCache).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('リクエスト内の read-your-own-writes', () => {
+    it('同一リクエスト内で変更したデータはキャッシュを迂回して読み取る', async () => {
+      const userId = testId()
+      await db.user.create({
+        data: {
+          email: `ryow-${userId}@example.com`,
+          id: userId,
+          name: 'Before',
+        },
+      })
+
+      await runWithCacheRequestScope(async () => {
+        await db.user.update({
+          data: { name: 'After' },
+          where: { id: userId },
+        })
+
+        const user = await db.user.findUnique({ where: { id: userId } })
+        expect(user?.name).toBe('After')
+        expect(user?.createdAt).toBeInstanceOf(Date)
+        expect(mockUnstableCache).not.toHaveBeenCalled()
+      })
+
+      // スコープ外の読み取りはキャッシュする
+      await db.user.findUnique({ where: { id: userId } })
+      expect(mockUnstableCache).toHaveBeenCalledTimes(1)
+    })
+
+    it('getRequestScope で指定したスコープに変更したタグを記録する', async () => {
+      const scope = createCacheRequestScope()
+      const scopedDb = createBaseClient().$use(
+        createNextjsCachePlugin({ getRequestScope: () => scope }),
+      )
+
+      const userId = testId()
+      await scopedDb.user.create({
+        data: {
+          email: `ryow-scope-${userId}@example.com`,
+          id: userId,
+          name: 'Scoped User',
+        },
+      })
+
+      expect(scope.mutatedTags).toContain('user:list')
+      expect(scope.mutatedTags).toContain(`user:${userId}`)
+
+      await scopedDb.user.findMany()
+      expect(mockUnstableCache).not.toHaveBeenCalled()
+    })
+  })
+
   describe('キャッシュ無効化', () => {
     it('ユーザー作成後にonEntityMutationが呼ばれる設定になっている', () => {
       const plugin = createNextjsCachePlugin()
       expect(plugin.onEntityMutation).toBeDefined()
       expect(plugin.onEntityMutation?.afterEntityMutation).toBeDefined()
     })
+
+    it('トランザクションのコミット後にキャッシュを無効化する', async () => {
+      const userId = testId()
+
+      await db.$transaction(async (tx) => {
+        await tx.user.create({
+          data: {
+            email: `tx-commit-${userId}@example.com`,
+            id: userId,
+            name: 'Tx Commit User',
+          },
+        })
+        // コミット前には無効化されない
+        expect(mockUpdateTag).not.toHaveBeenCalled()
+      })
+
+      expect(mockUpdateTag).toHaveBeenCalledWith('user:list')
+      expect(mockUpdateTag).toHaveBeenCalledWith(`user:${userId}`)
+    })
+
+    describe('invalidationTiming', () => {
+      it.each([
+        ['both', ['Before', 'After']],
+        ['before', ['Before']],
+        ['after', ['After']],
+      ] as const)(
+        '%s: 指定したタイミングで無効化する',
+        async (timing, expected) => {
+          const userId = testId()
+          await createUser(userId)
+          const { client, names } = createRecordingClient(userId, timing)
+
+          await client.user.update({
+            data: { name: 'After' },
+            where: { id: userId },
+          })
+
+          expect(names).toEqual(expected)
+        },
+      )
+
+      it('トランザクション外の $qb の書き込みも指定したタイミングで無効化する', async () => {
+        const userId = testId()
+        await createUser(userId)
+        const { client, names } = createRecordingClient(userId, 'both')
+
+        await client.$qb
+          .updateTable('User')
+          .set({ name: 'After' })
+          .where('id', '=', userId)
+          .execute()
+
+        expect(names).toEqual(['Before', 'After'])
+      })
+
+      it('トランザクション内ではコミット後にだけ無効化する', async () => {
+        const userId = testId()
+        await createUser(userId)
+        const { client, names } = createRecordingClient(userId, 'before')
+
+        await client.$transaction(async (tx) => {
+          await tx.user.update({
+            data: { name: 'After' },
+            where: { id: userId },
+          })
+          expect(names).toEqual([])
+        })
+
+        expect(names).toEqual(['After'])
+      })
+    })
+
+    it('トランザクションのロールバック時はキャッシュを無効化しない', async () => {
+      const userId = testId()
+
+      await expect(
+        db.$transaction(async (tx) => {
+          await tx.user.create({
+            data: {
+              email: `tx-rollback-${userId}@example.com`,
+              id: userId,
+              name: 'Tx Rollback User',
+            },
+          })
+          throw new Error('rollback')
+        }),
+      ).rejects.toThrow('rollback')
+
+      expect(mockUpdateTag).not.toHaveBeenCalled()
+      expect(await db.user.findUnique({ where: { id: userId } })).toBeNull()
+    })
+  })
+
+  describe('リレーションを考慮したキャッシュ無効化', () => {
+    // 投稿を1件持つユーザーをキャッシュを通さずに作成
+    const createAuthorWithPost = async () => {
+      const userId = testId()
+      const postId = testId()
+      await createBaseClient().user.create({
+        data: {
+          email: `author-${userId}@example.com`,
+          id: userId,
+          name: 'Author',
+          posts: { create: { id: postId, title: 'Before' } },
+        },
+      })
+      return { postId, userId }
+    }
+
+    it('ネストした書き込みで変更したリレーション先のキャッシュを無効化する', async () => {
+      const memoryDb = createMemoryClient()
+      const { postId, userId } = await createAuthorWithPost()
+      const findTitle = async () =>
+        (await memoryDb.post.findUnique({ where: { id: postId } }))?.title
+      const countPosts = () =>
+        memoryDb.post.count({ where: { authorId: userId } })
+
+      expect(await findTitle()).toBe('Before')
+      expect(await countPosts()).toBe(1)
+
+      // キャッシュを経由しない書き込みでは古い値が返る
+      sqlite
+        .prepare('UPDATE post SET title = ? WHERE id = ?')
+        .run('Direct', postId)
+      expect(await findTitle()).toBe('Before')
+
+      await memoryDb.user.update({
+        data: {
+          posts: {
+            create: { id: testId(), title: 'Created' },
+            update: { data: { title: 'Nested' }, where: { id: postId } },
+          },
+        },
+        where: { id: userId },
+      })
+
+      expect(await findTitle()).toBe('Nested')
+      expect(await countPosts()).toBe(2)
+    })
+
+    it('多対多リレーションの接続・切断で両側のキャッシュを無効化する', async () => {
+      const memoryDb = createMemoryClient()
+      const { postId } = await createAuthorWithPost()
+      const tagId = testId()
+      await createBaseClient().tag.create({ data: { id: tagId, name: 'Tag' } })
+      const findTagIds = async () =>
+        (
+          await memoryDb.post.findUnique({
+            include: { tags: true },
+            where: { id: postId },
+          })
+        )?.tags.map((tag: { id: string }) => tag.id)
+      const findPostIds = async () =>
+        (
+          await memoryDb.tag.findUnique({
+            include: { posts: true },
+            where: { id: tagId },
+          })
+        )?.posts.map((post: { id: string }) => post.id)
+
+      expect(await findTagIds()).toEqual([])
+      expect(await findPostIds()).toEqual([])
+
+      // キャッシュを経由しない中間テーブルの書き込みでは古い値が返る
+      sqlite
+        .prepare('INSERT INTO _PostToTag (A, B) VALUES (?, ?)')
+        .run(postId, tagId)
+      expect(await findTagIds()).toEqual([])
+      sqlite.prepare('DELETE FROM _PostToTag WHERE A = ?').run(postId)
+
+      await memoryDb.post.update({
+        data: { tags: { connect: { id: tagId } } },
+        where: { id: postId },
+      })
+      expect(await findTagIds()).toEqual([tagId])
+      expect(await findPostIds()).toEqual([postId])
+
+      await memoryDb.tag.update({
+        data: { posts: { disconnect: { id: postId } } },
+        where: { id: tagId },
+      })
+      expect(await findTagIds()).toEqual([])
+      expect(await findPostIds()).toEqual([])
+    })
+
+    it('参照アクションで連鎖的に削除された行のキャッシュを無効化する', async () => {
+      const memoryDb = createMemoryClient()
+      const { postId, userId } = await createAuthorWithPost()
+      const commentId = testId()
+      await createBaseClient().comment.create({
+        data: { body: 'Before', id: commentId, postId },
+      })
+      // Comment は User と直接のリレーションを持たないため、削除の連鎖でしか無効化されない
+      const findBody = async () =>
+        (await memoryDb.comment.findUnique({ where: { id: commentId } }))?.body
+      const countComments = () => memoryDb.comment.count({ where: { postId } })
+
+      expect(await findBody()).toBe('Before')
+      expect(await countComments()).toBe(1)
+
+      // キャッシュを経由しない書き込みでは古い値が返る
+      sqlite
+        .prepare('UPDATE comment SET body = ? WHERE id = ?')
+        .run('Direct', commentId)
+      expect(await findBody()).toBe('Before')
+
+      // 投稿とコメントはデータベースの ON DELETE CASCADE で削除され、フックには渡されない
+      await memoryDb.user.delete({ where: { id: userId } })
+
+      expect(await findBody()).toBeUndefined()
+      expect(await countComments()).toBe(0)
+    })
+
+    it('委譲モデルの書き込みで継承階層のキャッシュを無効化する', async () => {
+      const memoryDb = createMemoryClient()
+      const videoId = testId()
+      await createBaseClient().video.create({
+        data: { id: videoId, title: 'Before', url: 'https://example.com' },
+      })
+      const findAssetTitle = async () =>
+        (await memoryDb.asset.findUnique({ where: { id: videoId } }))?.title
+      const findVideoTitle = async () =>
+        (await memoryDb.video.findUnique({ where: { id: videoId } }))?.title
+
+      expect(await findAssetTitle()).toBe('Before')
+      expect(await findVideoTitle()).toBe('Before')
+
+      // キャッシュを経由しない書き込みでは古い値が返る
+      sqlite
+        .prepare('UPDATE asset SET title = ? WHERE id = ?')
+        .run('Direct', videoId)
+      expect(await findAssetTitle()).toBe('Before')
+      expect(await findVideoTitle()).toBe('Before')
+
+      // 具象モデルの書き込みで基底モデルの読み取りを無効化する
+      await memoryDb.video.update({
+        data: { title: 'Video' },
+        where: { id: videoId },
+      })
+      expect(await findAssetTitle()).toBe('Video')
+      expect(await findVideoTitle()).toBe('Video')
+
+      // 基底モデルの書き込みで具象モデルの読み取りを無効化する
+      await memoryDb.asset.update({
+        data: { title: 'Asset' },
+        where: { id: videoId },
+      })
+      expect(await findAssetTitle()).toBe('Asset')
+      expect(await findVideoTitle()).toBe('Asset')
+    })
   })
 })